@@ -1,10 +1,26 @@
 
-import { ChangeDetectionStrategy, Component, ElementRef, ViewChild, signal, effect, AfterViewInit, WritableSignal, inject, Injector, runInInjectionContext, computed } from '@angular/core';
+import { ChangeDetectionStrategy, Component, ElementRef, ViewChild, signal, effect, AfterViewInit, WritableSignal, inject, Injector, runInInjectionContext, computed, untracked } from '@angular/core';
 import * as THREE from 'three';
 import { OrbitControls } from 'three/addons/controls/OrbitControls.js';
-import { HDRLoader } from 'three/addons/loaders/HDRLoader.js';
 import { MathUtils } from 'three';
 import { SecureCryptoService } from './services/secure-crypto.service';
+import { DecodedHdri, HdriDecoderService, HdriQualityReport, HdriSource, HdriStats, LdrDecodeOptions, PreviewImage } from './services/hdri-decoder.service';
+import { HdriEncoderService } from './services/hdri-encoder.service';
+import { EquirectTransformService } from './services/equirect-transform.service';
+import { CubemapConverterService, CubemapLayout } from './services/cubemap-converter.service';
+import { FalseColorService, FalseColorSettings, MIDDLE_GRAY } from './services/false-color.service';
+import { LightExtractionService } from './services/light-extraction.service';
+import { PrefilteredEnvironmentService, PrefilteredLayout } from './services/prefiltered-environment.service';
+import { createZip } from './services/zip-archive';
+import { ContactSheetService, ContactSheetTile } from './services/contact-sheet.service';
+import { CubeLut, parseCubeLut } from './services/cube-lut';
+import { ModelImportService } from './services/model-import.service';
+import { LOOK_TRANSFORMS, VIEW_CHANNELS, VIEW_LOOKS, VIEW_TRANSFORMS, ViewChannel, ViewLook, ViewSettings, ViewTransform, ViewTransformService } from './services/view-transform.service';
+import { SH_COEFFICIENT_NAMES, SphericalHarmonicsService } from './services/spherical-harmonics.service';
+import { chromaticity, luminance, RADIANCE_EFFICACY } from './services/hdri-analysis';
+import { directionToEquirectUv, equirectUvToDirection, HdriOrientation, hdriToWorld, levelHorizon, orientationToEuler, worldToHdri } from './services/equirect-mapping';
+import { CameraExposure, ev100FromCamera, ev100FromExposure, ev100FromLuminance, exposureFromEv100, meterEnvironment, MeteringMode, shutterForEv100 } from './services/exposure-metering';
+import { applyColorMatrix, ColorMatrix, ColorTemperature, isIdentityColorMatrix, NEUTRAL_WHITE_BALANCE, whiteBalanceMatrix, xyToCct } from './services/color-temperature';
 
 interface HDRI {
   name: string;
@@ -13,6 +29,28 @@ interface HDRI {
   lights: ManualLight[]; // Lights associated with this HDRI
 }
 
+interface LoadedLut {
+  name: string;
+  text: string; // Original .cube file, stored in projects & presets as is
+  lut: CubeLut;
+}
+
+/** Editable settings of one material of an imported model, in its material order. */
+interface ModelMaterial {
+  name: string;
+  color: string;
+  roughness: number;
+  metalness: number;
+}
+
+interface ImportedModel {
+  id: string;
+  name: string;
+  file: File; // Original model file, embedded in projects as is
+  object: THREE.Group;
+  materials: ModelMaterial[];
+}
+
 interface ManualLight {
   id: string;
   u: number;
@@ -23,11 +61,41 @@ interface ManualLight {
   instance?: THREE.DirectionalLight;
 }
 
-type ToneMappingOption = 'Reinhard' | 'Cineon' | 'Grayscale' | 'None';
-type ColorSpaceOption = 'Linear sRGB' | 'ACES Filmic';
-type EditableMaterial = 'Floor' | 'Glass' | 'Matte' | 'Chrome' | 'Plastic' | 'Color Checker';
+interface PixelProbe {
+  source: 'preview' | 'background';
+  clientX: number;
+  clientY: number;
+  r: number;
+  g: number;
+  b: number;
+  luminance: number;
+  nits: number;
+  ev: number; // Stops relative to 18% gray, same scale as False Color
+  chromaticity: { x: number; y: number } | null;
+  azimuth: number; // Degrees in world space, 0 = +Z, 90 = +X
+  elevation: number; // Degrees above the horizon
+}
+
+type ToneMappingOption = 'Reinhard' | 'Cineon' | 'None';
+// Saved before V1.11 projects; 'Grayscale' is the Luminance channel view with Reinhard now
+type SavedToneMappingOption = ToneMappingOption | 'Grayscale';
+type ColorSpaceOption = 'Linear sRGB' | 'ACES Filmic' | 'AgX' | 'Khronos PBR Neutral';
+type OutputColorSpace = 'sRGB' | 'Display P3';
+type ExposureMode = 'Multiplier' | 'EV100' | 'Camera';
+type EditableMaterial = 'Floor' | 'Glass' | 'Matte' | 'Chrome' | 'Plastic' | 'Color Checker' | 'Model';
 type Preset = 'SHV' | 'Polyhaven' | 'Grayscale' | 'SkinTone' | 'Custom';
 type Theme = 'light' | 'dark';
+type HdriExportFormat = 'hdr' | 'exr-half' | 'exr-float';
+type HdriExportSize = 'original' | '1k' | '2k' | '4k' | '8k';
+type CompareView = 'wipe' | 'side-by-side';
+type ToneCompareLayout = 'wipe' | 'tiles';
+
+/** Canvas area in 0-1 units from the bottom left, as WebGL viewports are. */
+interface CanvasRect { x: number; y: number; width: number; height: number; }
+
+/** One view of a split canvas: the camera projects into `viewport`, drawing is clipped to `scissor`. */
+interface ViewPane { viewport: CanvasRect; scissor: CanvasRect; }
+type EnvironmentSizeLimit = 'auto' | '1k' | '2k' | '4k' | '8k' | 'original';
 
 // --- Project Data Interfaces for Saving/Loading ---
 interface TextureData {
@@ -49,7 +117,7 @@ interface ProjectDataV1_7 {
     exposure: number;
     blur: number;
     selectedHdriName: string | null;
-    toneMapping: ToneMappingOption;
+    toneMapping: SavedToneMappingOption;
     spheresVisible: boolean;
     groundVisible: boolean;
     colorCheckerVisible: boolean;
@@ -78,6 +146,58 @@ interface ProjectDataV1_7 {
   };
 }
 
+// V1.8: Horizon levelling (pitch/roll in degrees)
+interface ProjectDataV1_8 extends Omit<ProjectDataV1_7, 'version' | 'settings'> {
+  version: '1.8';
+  settings: ProjectDataV1_7['settings'] & {
+    pitch: number;
+    roll: number;
+  };
+}
+
+// V1.9: View look for AgX / Khronos PBR Neutral (the color space may now be either of them)
+interface ProjectDataV1_9 extends Omit<ProjectDataV1_8, 'version' | 'settings'> {
+  version: '1.9';
+  settings: ProjectDataV1_8['settings'] & {
+    viewLook: ViewLook;
+  };
+}
+
+// V1.10: Display LUTs
+interface ProjectDataV1_10 extends Omit<ProjectDataV1_9, 'version' | 'settings'> {
+  version: '1.10';
+  settings: ProjectDataV1_9['settings'] & {
+    lut: { name: string | null; intensity: number; };
+  };
+  luts: TextureData[];
+}
+
+// V1.11: Channel view (grayscale) as part of the render
+interface ProjectDataV1_11 extends Omit<ProjectDataV1_10, 'version' | 'settings'> {
+  version: '1.11';
+  settings: ProjectDataV1_10['settings'] & {
+    viewChannel: ViewChannel;
+  };
+}
+
+// V1.12: Exposure mode & camera settings (the exposure multiplier stays the saved exposure)
+interface ProjectDataV1_12 extends Omit<ProjectDataV1_11, 'version' | 'settings'> {
+  version: '1.12';
+  settings: ProjectDataV1_11['settings'] & {
+    exposureMode: ExposureMode;
+    camera: CameraExposure;
+  };
+}
+
+// V1.13: Imported glTF/GLB & OBJ models with their material edits
+interface ProjectDataV1_13 extends Omit<ProjectDataV1_12, 'version' | 'settings'> {
+  version: '1.13';
+  settings: ProjectDataV1_12['settings'] & {
+    modelsVisible: boolean;
+  };
+  models: (TextureData & { materials: ModelMaterial[] })[];
+}
+
 // ... (Previous Interfaces V1.6 - V1.0 retained for compatibility) ...
 interface ProjectDataV1_6 { version: '1.6'; [key: string]: any; }
 interface ProjectDataV1_5 { version: '1.5'; [key: string]: any; }
@@ -87,10 +207,10 @@ interface ProjectDataV1_2 { version: '1.2'; [key: string]: any; }
 interface ProjectDataV1_1 { version: '1.1'; [key: string]: any; }
 interface ProjectDataV1_0 { version: '1.0'; [key: string]: any; }
 
-type AnyProjectData = ProjectDataV1_7 | ProjectDataV1_6 | ProjectDataV1_5 | ProjectDataV1_4 | ProjectDataV1_3 | ProjectDataV1_2 | ProjectDataV1_1 | ProjectDataV1_0;
+type AnyProjectData = ProjectDataV1_13 | ProjectDataV1_12 | ProjectDataV1_11 | ProjectDataV1_10 | ProjectDataV1_9 | ProjectDataV1_8 | ProjectDataV1_7 | ProjectDataV1_6 | ProjectDataV1_5 | ProjectDataV1_4 | ProjectDataV1_3 | ProjectDataV1_2 | ProjectDataV1_1 | ProjectDataV1_0;
 
 interface CustomPresetData {
-  version: '1.0';
+  version: '1.0' | '1.1';
   materials: {
     glass: { color: string; roughness: number; ior: number; transmission: number; };
     matte: { color: string; roughness: number; metalness: number; };
@@ -105,6 +225,14 @@ interface CustomPresetData {
   colorChecker: {
     colors: string[][];
   };
+  // V1.1: Color pipeline, with the .cube text of the LUT if one is applied
+  view?: {
+    colorSpace: ColorSpaceOption;
+    toneMapping: SavedToneMappingOption;
+    look: ViewLook;
+    channel?: ViewChannel;
+    lut?: { name: string; data: string; intensity: number; };
+  };
 }
 
 @Component({
@@ -117,22 +245,64 @@ export class AppComponent implements AfterViewInit {
   rendererCanvas!: ElementRef<HTMLCanvasElement>;
   
   @ViewChild('hdriPreviewImage')
-  hdriPreviewImage!: ElementRef<HTMLImageElement>;
+  hdriPreviewImage?: ElementRef<HTMLImageElement>;
 
   // UI State Signals
   rotation = signal(0);
+  // Horizon levelling in degrees, applied before the yaw rotation
+  pitch = signal(0);
+  roll = signal(0);
+  orientation = computed<HdriOrientation>(() => ({ rotation: this.rotation(), pitch: this.pitch(), roll: this.roll() }));
+  isLevelingHorizon = signal(false); // Collecting two horizon points on the Light Editor preview
+  horizonPoints = signal<{ u: number; v: number }[]>([]);
   exposure = signal(1);
+  // The multiplier above is what renders; EV100 and camera settings are other ways to set it
+  exposureMode = signal<ExposureMode>('Multiplier');
+  cameraExposure = signal<CameraExposure>({ iso: 100, shutter: 1 / 125, aperture: 8 });
+  exposureEv100 = computed(() => ev100FromExposure(this.exposure()));
+  // Camera settings in stops for the sliders: ISO from 100, shutter from 1 s, aperture from f/1
+  cameraStops = computed(() => {
+    const { iso, shutter, aperture } = this.cameraExposure();
+    return { iso: Math.log2(iso / 100), shutter: Math.log2(shutter), aperture: 2 * Math.log2(aperture) };
+  });
+  isAutoExposure = signal(false);
+  meteringMode = signal<MeteringMode>('Average');
+  readonly meteringModes: MeteringMode[] = ['Average', 'Center-weighted', 'Spot'];
+  isExposureLocked = signal(false); // AE lock: keeps the metered exposure when the environment changes
+  isPickingMeteringSpot = signal(false);
   blur = signal(0);
   isLoading = signal(true);
   loadingMessage = signal('Initializing Scene...');
   spheresVisible = signal(true);
   groundVisible = signal(true);
   colorCheckerVisible = signal(true);
+  modelsVisible = signal(true);
   toneMapping = signal<ToneMappingOption>('Reinhard');
   colorSpace = signal<ColorSpaceOption>('ACES Filmic');
-  anyObjectVisible = computed(() => this.spheresVisible() || this.colorCheckerVisible() || this.groundVisible());
+  viewLook = signal<ViewLook>('None'); // AgX & Khronos PBR Neutral only
+  readonly viewLooks = VIEW_LOOKS;
+  // The pipeline either is a view transform itself or, for Linear sRGB, uses the tone mapping option
+  viewTransform = computed<ViewTransform>(() => {
+    const space = this.colorSpace();
+    if (space !== 'Linear sRGB') return space;
+    return this.toneMapping();
+  });
+  hasViewLooks = computed(() => LOOK_TRANSFORMS.includes(this.viewTransform()));
+  viewChannel = signal<ViewChannel>('RGB'); // Rendered as gray for everything but RGB, screenshots included
+  readonly viewChannels = VIEW_CHANNELS;
+  // Canvas encoding; the color checker editor works in this space too
+  outputColorSpace = signal<OutputColorSpace>('sRGB');
+  isDisplayP3Supported = signal(false);
+  gamutWarning = signal(false);
+  // Display LUTs (.cube), applied after the view transform
+  luts = signal<LoadedLut[]>([]);
+  selectedLutName = signal<string | null>(null);
+  lutIntensity = signal(1);
+  selectedLut = computed(() => this.luts().find(l => l.name === this.selectedLutName()) ?? null);
+  anyObjectVisible = computed(() => this.spheresVisible() || this.colorCheckerVisible() || this.groundVisible() || (this.modelsVisible() && this.models().length > 0));
   isMaterialEditorOpen = signal(false);
   isLightEditorOpen = signal(false);
+  isAnalysisPanelOpen = signal(false);
   isPickingLight = signal(false); // Mode for picking light from scene
   isAboutPanelOpen = signal(false);
   aboutPanelActiveTab = signal<'about' | 'how-to' | 'changelog'>('about');
@@ -141,6 +311,124 @@ export class AppComponent implements AfterViewInit {
   hdriList: WritableSignal<HDRI[]> = signal([]);
   selectedHdriName = signal<string | null>(null);
   hdriPreviewUrl = signal<string | null>(null);
+  // Progress of the HDRI currently decoding in the worker (null when idle)
+  hdriLoadProgress = signal<{ message: string; progress: number } | null>(null);
+  // Largest equirect width uploaded for the environment; the full-res data is still used for lights & export
+  maxEnvironmentSize = signal<EnvironmentSizeLimit>('auto');
+  currentHdriSource = signal<HdriSource | null>(null);
+  // Luminance statistics & histogram of the current HDRI, computed by the decoder worker
+  hdriStats = signal<HdriStats | null>(null);
+  // A/B compare: side A is the regular scene, side B another list entry with its own rotation & exposure
+  isCompareMode = signal(false);
+  compareHdriName = signal<string | null>(null);
+  compareView = signal<CompareView>('wipe');
+  compareWipe = signal(0.5); // Wipe position, 0-1 from the left
+  compareRotation = signal(0);
+  compareExposure = signal(1);
+  isCompareLoading = signal(false);
+  isComparing = computed(() => this.isCompareMode() && this.hdriList().some(h => h.name === this.compareHdriName()));
+  // Side B's file; switchHdri updates the list to store lights, which must not reload side B
+  private compareHdriUrl = computed(() => {
+    const name = this.isCompareMode() ? this.compareHdriName() : null;
+    return name ? this.hdriList().find(h => h.name === name)?.url ?? null : null;
+  });
+  // Side B shares the levelling (pitch & roll) so levelled HDRIs compare like for like
+  private compareOrientation = computed<HdriOrientation>(() => ({ ...this.orientation(), rotation: this.compareRotation() }));
+  compareSplit = computed(() => this.compareView() === 'side-by-side' ? 0.5 : this.compareWipe());
+  // Tone mapping compare: the same scene and camera in 2-4 view transforms
+  readonly viewTransforms = VIEW_TRANSFORMS;
+  isToneCompareMode = signal(false);
+  toneCompareLayout = signal<ToneCompareLayout>('wipe');
+  toneCompareCount = signal(4); // Tiles only, a wipe always shows the first two
+  toneCompareTransforms = signal<ViewTransform[]>(['ACES Filmic', 'AgX', 'Khronos PBR Neutral', 'Reinhard']);
+  toneCompareWipe = signal(0.5);
+  viewPanes = computed<ViewPane[]>(() => {
+    if (this.isToneCompareMode()) {
+        return this.toneCompareLayout() === 'wipe'
+            ? this.wipePanes(this.toneCompareWipe())
+            : this.tilePanes(this.toneCompareCount());
+    }
+    if (this.isComparing()) {
+        return this.compareView() === 'wipe' ? this.wipePanes(this.compareWipe()) : this.tilePanes(2);
+    }
+    return this.tilePanes(1);
+  });
+  // Clipping/seam/pole checks per HDRI name; filled on load and by "Check All"
+  hdriQualityReports = signal<Record<string, HdriQualityReport>>({});
+  hdriQuality = computed(() => this.hdriQualityReports()[this.selectedHdriName() ?? ''] ?? null);
+  qualityCheckProgress = signal<{ done: number; total: number } | null>(null);
+  // False color display of the background & light editor preview (stops relative to 18% gray)
+  falseColorEnabled = signal(false);
+  falseColorMinEv = signal(-6);
+  falseColorMaxEv = signal(8);
+  zebraEnabled = signal(true);
+  zebraEv = signal(5);
+  falseColorSettings = computed<FalseColorSettings>(() => ({
+    minEv: this.falseColorMinEv(),
+    maxEv: this.falseColorMaxEv(),
+    zebra: this.zebraEnabled(),
+    zebraEv: this.zebraEv(),
+  }));
+  falseColorLegend = computed(() => this.falseColor.legend(this.falseColorSettings()));
+  falseColorPreviewUrl = signal<string | null>(null);
+  // Pixel probe: always on over the Light Editor preview, opt-in over the 3D background
+  pixelProbe = signal<PixelProbe | null>(null);
+  isBackgroundProbeActive = signal(false);
+  // White balance: the temperature/tint of the light to neutralize; D65 leaves the image unchanged
+  whiteBalanceTemperature = signal(Math.round(NEUTRAL_WHITE_BALANCE.cct));
+  whiteBalanceTint = signal(NEUTRAL_WHITE_BALANCE.duv);
+  whiteBalanceMatrix = computed(() => whiteBalanceMatrix({ cct: this.whiteBalanceTemperature(), duv: this.whiteBalanceTint() }));
+  isPickingNeutral = signal(false); // Click the background or a gray color checker patch
+  environmentTemperature = computed(() => {
+    const stats = this.hdriStats();
+    return stats ? this.estimateTemperature(...stats.meanColor) : null;
+  });
+  lightTemperatures = computed(() => this.manualLights().map(light => {
+    const color = new THREE.Color(light.color);
+    return { id: light.id, color: light.color, temperature: this.estimateTemperature(color.r, color.g, color.b) };
+  }));
+  // L2 spherical harmonics of the environment in world space, computed while the analysis panel or the preview sphere needs them
+  sphericalHarmonics = signal<THREE.SphericalHarmonics3 | null>(null);
+  isShPreviewVisible = signal(false);
+  shCoefficientRows = computed(() => this.sphericalHarmonics()?.coefficients.map((c: THREE.Vector3, i: number) => ({ name: SH_COEFFICIENT_NAMES[i], rgb: [c.x, c.y, c.z] })) ?? []);
+  lightEditorPreviewUrl = computed(() => (this.falseColorEnabled() && this.falseColorPreviewUrl()) || this.hdriPreviewUrl());
+  histogramChart = computed(() => {
+    const stats = this.hdriStats();
+    if (!stats) return null;
+    const { histogram } = stats;
+    const bins = histogram.luminance.length;
+    const peak = Math.max(1, ...histogram.red, ...histogram.green, ...histogram.blue, ...histogram.luminance);
+    // SVG paths in a 100x40 viewBox, one point per bin
+    const toPath = (counts: Uint32Array, closed: boolean) => {
+      const points = Array.from(counts, (count, i) => `${((i + 0.5) / bins * 100).toFixed(2)},${(40 - count / peak * 40).toFixed(2)}`);
+      return closed ? `M0,40 L${points.join(' L')} L100,40 Z` : `M${points.join(' L')}`;
+    };
+    const stops = histogram.maxEv - histogram.minEv;
+    const labelStep = Math.max(1, Math.ceil(stops / 6));
+    const ticks: { x: number; label: string }[] = [];
+    for (let ev = Math.ceil(histogram.minEv / labelStep) * labelStep; ev <= histogram.maxEv; ev += labelStep) {
+      ticks.push({ x: (ev - histogram.minEv) / stops * 100, label: `${ev > 0 ? '+' : ''}${ev}` });
+    }
+    return {
+      luminance: toPath(histogram.luminance, true),
+      red: toPath(histogram.red, false),
+      green: toPath(histogram.green, false),
+      blue: toPath(histogram.blue, false),
+      ticks,
+    };
+  });
+  // 8-bit panorama expansion (JPG/PNG/AVIF without gain map)
+  ldrInverseTonemap = signal(false);
+  ldrBoost = signal(0); // EV
+  cubemapLayout = signal<CubemapLayout>('auto');
+  exportFormat = signal<HdriExportFormat>('hdr');
+  exportSize = signal<HdriExportSize>('original');
+  // Prefiltered (irradiance + specular mip) export; the size is the cube face size of the sharpest level
+  prefilterLayout = signal<PrefilteredLayout>('equirect');
+  prefilterSize = signal(256);
+  // Contact sheet: one frame per HDRI (and per built-in preset), 4:3 tiles of this width
+  contactSheetTileWidth = signal(512);
+  contactSheetAllPresets = signal(false);
   private currentHdriData: Float32Array | null = null;
   private currentHdriWidth = 0;
   private currentHdriHeight = 0;
@@ -148,6 +436,8 @@ export class AppComponent implements AfterViewInit {
   // Light Editor Signals
   manualLights = signal<ManualLight[]>([]);
   selectedLightId = signal<string | null>(null);
+  autoLightCount = signal(3);
+  autoLightThresholdEv = signal(4); // Stops above the mean luminance
   private isDraggingLight = false;
 
   // Preset Management
@@ -161,6 +451,12 @@ export class AppComponent implements AfterViewInit {
 
   // Material Editor Signals
   selectedMaterial = signal<EditableMaterial>('Floor');
+  // Imported models (glTF/GLB, OBJ), placed in a row in front of the spheres
+  models = signal<ImportedModel[]>([]);
+  selectedModelId = signal<string | null>(null);
+  selectedModel = computed(() => this.models().find(m => m.id === this.selectedModelId()) ?? null);
+  selectedModelMaterialIndex = signal(0);
+  selectedModelMaterial = computed(() => this.selectedModel()?.materials[this.selectedModelMaterialIndex()] ?? null);
   // Floor
   floorTiling = signal(40);
   // Glass Sphere
@@ -182,6 +478,11 @@ export class AppComponent implements AfterViewInit {
   plasticMetalness = signal(0.05);
   // Color Checker
   colorCheckerColors = signal<string[][]>([]);
+  // Editor values in the output color space (clamped to it)
+  colorCheckerHexes = computed(() => {
+    const space = this.outputColorSpace() === 'Display P3' ? THREE.DisplayP3ColorSpace : THREE.SRGBColorSpace;
+    return this.colorCheckerColors().map(row => row.map(color => '#' + this.parseColorCheckerColor(color).getHexString(space)));
+  });
 
   // Custom texture file tracking
   floorTextureFile = signal<File | null>(null);
@@ -197,13 +498,31 @@ export class AppComponent implements AfterViewInit {
   private renderer!: THREE.WebGLRenderer;
   private controls!: OrbitControls;
   private pmremGenerator!: THREE.PMREMGenerator;
+  private environmentTarget: THREE.WebGLRenderTarget | null = null;
+  private currentEnvironment: DecodedHdri | null = null;
+  private falseColorBackground: THREE.Mesh | null = null;
+  private balancedEnvironment: DecodedHdri | null = null;
+  private whiteBalanceTimeoutId: any = null;
+  private shPreviewSphere: THREE.Mesh | null = null;
+  private compareEnvironment: DecodedHdri | null = null; // Side B before white balance
+  private compareTarget: THREE.WebGLRenderTarget | null = null;
+  private compareLights: THREE.DirectionalLight[] = [];
+  private meteringSpot: THREE.Ray | null = null; // World ray of the picked spot, it stays put when orbiting
+  private compareLoadController: AbortController | null = null;
+  private hdriLoadController: AbortController | null = null;
   private ambientLight!: THREE.AmbientLight;
   private groundObject!: THREE.Mesh;
   private sphereObjects: THREE.Mesh[] = [];
   private colorCheckerObject!: THREE.Group;
   private colorCheckerPatches: THREE.Mesh[][] = [];
+  private nextModelId = 1;
   private textureLoader = new THREE.TextureLoader();
   
+  // Imported models: largest side in scene units, and their row in front of the spheres
+  private readonly modelSize = 1.5;
+  private readonly modelSpacing = 2;
+  private readonly modelRowZ = 2.25;
+
   private readonly defaultColorCheckerColors = [
       // Row 1: Natural colors
       [115, 82, 68],   // #735244 Dark skin
@@ -245,6 +564,17 @@ export class AppComponent implements AfterViewInit {
 
   private injector = inject(Injector);
   private cryptoService = inject(SecureCryptoService);
+  private hdriDecoder = inject(HdriDecoderService);
+  private hdriEncoder = inject(HdriEncoderService);
+  private cubemapConverter = inject(CubemapConverterService);
+  private equirectTransform = inject(EquirectTransformService);
+  private falseColor = inject(FalseColorService);
+  private lightExtraction = inject(LightExtractionService);
+  private sphericalHarmonicsService = inject(SphericalHarmonicsService);
+  private prefilteredEnvironment = inject(PrefilteredEnvironmentService);
+  private contactSheet = inject(ContactSheetService);
+  private modelImport = inject(ModelImportService);
+  private viewTransformPass = inject(ViewTransformService);
 
   constructor() {
     // Effect to load a new HDRI when selection changes
@@ -253,7 +583,9 @@ export class AppComponent implements AfterViewInit {
       if (name) {
         const hdri = this.hdriList().find(h => h.name === name);
         if (hdri) {
-          this.loadHdri(hdri.url, `Loading ${hdri.name}...`);
+          const ldrOptions = this.getLdrOptions(hdri.name);
+          this.maxEnvironmentSize(); // Reload when the resolution limit changes
+          this.loadHdri(hdri, `Loading ${hdri.name}...`, ldrOptions);
         }
       }
     });
@@ -275,6 +607,7 @@ export class AppComponent implements AfterViewInit {
         if (!this.isLightEditorOpen()) {
             this.isPickingLight.set(false);
             this.isDraggingLight = false;
+            this.cancelHorizonLevelling();
         }
     });
   }
@@ -283,12 +616,19 @@ export class AppComponent implements AfterViewInit {
     this.initThree();
     this.createSceneContent();
     this.renderer.domElement.addEventListener('click', this.onObjectClick.bind(this));
+    this.renderer.domElement.addEventListener('pointermove', this.onScenePointerMove.bind(this));
+    this.renderer.domElement.addEventListener('pointerleave', () => this.clearPixelProbe('background'));
     this.animate();
     this.setupSceneUpdateEffects();
     this.setupMaterialUpdateEffects();
     this.setupPresetEffect();
     this.setupSelectionEffects();
     this.setupLightEffects();
+    this.setupFalseColorEffects();
+    this.setupWhiteBalanceEffects();
+    this.setupSphericalHarmonicsEffects();
+    this.setupCompareEffects();
+    this.setupExposureEffects();
     this.isLoading.set(false);
   }
 
@@ -306,12 +646,15 @@ export class AppComponent implements AfterViewInit {
         effect(() => {
             // Re-run when selectedMaterial or theme changes
             const materialName = this.selectedMaterial();
+            const modelId = this.selectedModelId(); // not the model itself, material edits would re-flash it
             this.theme(); // dependency
 
             if (this.isMaterialEditorOpen()) {
                 let objectToHighlight: THREE.Object3D | null = null;
                 if (materialName === 'Color Checker') {
                     objectToHighlight = this.colorCheckerObject;
+                } else if (materialName === 'Model') {
+                    objectToHighlight = untracked(() => this.models().find(m => m.id === modelId))?.object ?? null;
                 } else {
                     objectToHighlight = this.selectableObjects.find(o => o.name === materialName) || null;
                 }
@@ -325,62 +668,18 @@ export class AppComponent implements AfterViewInit {
       runInInjectionContext(this.injector, () => {
           effect(() => {
               const lights = this.manualLights();
-              const rotation = this.rotation();
+              const orientation = this.orientation();
+              const balance = this.whiteBalanceMatrix();
 
               // Update existing lights or create new ones
               lights.forEach(lightData => {
                   let light = lightData.instance;
 
                   if (!light) {
-                      light = new THREE.DirectionalLight(lightData.color, lightData.intensity);
-                      light.castShadow = lightData.castShadow;
-                      
-                      // Shadow settings
-                      light.shadow.mapSize.width = 4096;
-                      light.shadow.mapSize.height = 4096;
-                      light.shadow.camera.near = 0.5;
-                      light.shadow.camera.far = 100;
-                      light.shadow.camera.left = -15;
-                      light.shadow.camera.right = 15;
-                      light.shadow.camera.top = 15;
-                      light.shadow.camera.bottom = -15;
-                      light.shadow.radius = 2;
-                      light.shadow.blurSamples = 8;
-                      
-                      this.scene.add(light);
+                      light = this.createManualLightObject();
                       lightData.instance = light;
-
-                      // Explicitly set target to 0,0,0 and add to scene to ensure direction is correct
-                      light.target.position.set(0, 0, 0);
-                      this.scene.add(light.target);
                   }
-
-                  // Update properties
-                  light.color.set(lightData.color);
-                  light.intensity = lightData.intensity;
-                  light.castShadow = lightData.castShadow;
-
-                  // Update position based on UV + Global Rotation
-                  // Using Standard Equirectangular mapping: theta = (u - 0.5) * 2PI
-                  // This aligns standard U=0.5 (Center) with Theta=0 (+Z)
-                  const theta = (lightData.u - 0.5) * 2 * Math.PI; 
-                  const phi = lightData.v * Math.PI;
-                  
-                  // Correct phi to ensure we don't hit exactly 0 or PI (singularity)
-                  const correctedPhi = Math.max(0.0001, Math.min(Math.PI - 0.0001, phi));
-                  
-                  const lightDirection = new THREE.Vector3();
-                  lightDirection.setFromSphericalCoords(1, correctedPhi, theta);
-                  
-                  // Apply global scene rotation
-                  // Scene background rotates by `rotation * 2PI`.
-                  // The light must rotate with the background.
-                  const globalRotRadians = rotation * Math.PI * 2;
-                  lightDirection.applyAxisAngle(new THREE.Vector3(0, 1, 0), globalRotRadians);
-                  
-                  light.position.copy(lightDirection).multiplyScalar(50);
-                  light.updateMatrixWorld();
-                  light.target.updateMatrixWorld();
+                  this.updateManualLightObject(light, lightData, orientation, balance);
               });
 
               // Cleanup removed lights (Simplified: Only works if we don't have other dir lights)
@@ -388,17 +687,63 @@ export class AppComponent implements AfterViewInit {
       });
   }
 
+  /** Directional light with the shared shadow setup, added to the scene together with its target. */
+  private createManualLightObject(): THREE.DirectionalLight {
+      const light = new THREE.DirectionalLight();
+
+      // Shadow settings
+      light.shadow.mapSize.width = 4096;
+      light.shadow.mapSize.height = 4096;
+      light.shadow.camera.near = 0.5;
+      light.shadow.camera.far = 100;
+      light.shadow.camera.left = -15;
+      light.shadow.camera.right = 15;
+      light.shadow.camera.top = 15;
+      light.shadow.camera.bottom = -15;
+      light.shadow.radius = 2;
+      light.shadow.blurSamples = 8;
+
+      this.scene.add(light);
+      // Explicitly set target to 0,0,0 and add to scene to ensure direction is correct
+      light.target.position.set(0, 0, 0);
+      this.scene.add(light.target);
+      return light;
+  }
+
+  private updateManualLightObject(light: THREE.DirectionalLight, lightData: ManualLight, orientation: HdriOrientation, balance: ColorMatrix): void {
+      // Stored colors are as measured in the HDRI, white balance is applied on top
+      light.color.set(lightData.color);
+      light.color.setRGB(...applyColorMatrix(balance, light.color.r, light.color.g, light.color.b).map(c => Math.max(0, c)));
+      light.intensity = lightData.intensity;
+      light.castShadow = lightData.castShadow;
+
+      // Update position based on UV + Global Rotation, using the same mapping as the background.
+      // Keep v off the poles so the light never points straight along the up axis.
+      const v = Math.max(0.0001, Math.min(0.9999, lightData.v));
+      const lightDirection = hdriToWorld(equirectUvToDirection(lightData.u, v), orientation);
+
+      light.position.copy(lightDirection).multiplyScalar(50);
+      light.updateMatrixWorld();
+      light.target.updateMatrixWorld();
+  }
+
   private setupSceneUpdateEffects(): void {
     runInInjectionContext(this.injector, () => {
-      // Effect to update scene based on rotation
+      // Effect to update scene based on rotation & horizon levelling
       effect(() => {
-        const rot = this.rotation();
+        const orientation = this.orientation();
         if (this.scene) {
-          const radians = rot * Math.PI * 2;
-          this.scene.backgroundRotation.y = radians;
-          this.scene.environmentRotation.y = radians;
+          orientationToEuler(orientation, this.scene.backgroundRotation);
+          this.scene.environmentRotation.copy(this.scene.backgroundRotation);
           
-          // Lights are updated in setupLightEffects dependent on rotation()
+          // Lights are updated in setupLightEffects dependent on orientation()
+        }
+      });
+
+      // Canvas color space, encoded accordingly by the view transform pass
+      effect(() => {
+        if (this.renderer) {
+          this.renderer.outputColorSpace = this.outputColorSpace() === 'Display P3' ? THREE.DisplayP3ColorSpace : THREE.SRGBColorSpace;
         }
       });
 
@@ -409,46 +754,6 @@ export class AppComponent implements AfterViewInit {
         }
       });
       
-      // Effect for Color Pipeline (Space and Tone Mapping)
-      effect(() => {
-        if (this.renderer) {
-          const space = this.colorSpace();
-          const mapping = this.toneMapping();
-
-          if (space === 'ACES Filmic') {
-            this.renderer.toneMapping = THREE.ACESFilmicToneMapping;
-          } else { 
-            switch (mapping) {
-              case 'Reinhard':
-                this.renderer.toneMapping = THREE.ReinhardToneMapping;
-                break;
-              case 'Cineon':
-                this.renderer.toneMapping = THREE.CineonToneMapping;
-                break;
-              case 'Grayscale': 
-                this.renderer.toneMapping = THREE.ReinhardToneMapping;
-                break;
-              case 'None':
-                this.renderer.toneMapping = THREE.NoToneMapping;
-                break;
-            }
-          }
-          
-          this.renderer.outputColorSpace = THREE.SRGBColorSpace;
-          
-          this.scene.traverse((object) => {
-              if ((object as THREE.Mesh).material) {
-                  const material = (object as THREE.Mesh).material;
-                  if (Array.isArray(material)) {
-                      material.forEach(m => m.needsUpdate = true);
-                  } else {
-                      material.needsUpdate = true;
-                  }
-              }
-          });
-        }
-      });
-
       // Object visibility
       effect(() => {
         const showSpheres = this.spheresVisible();
@@ -465,6 +770,11 @@ export class AppComponent implements AfterViewInit {
         if (this.groundObject) {
           this.groundObject.visible = this.groundVisible();
         }
+
+        const showModels = this.modelsVisible();
+        for (const model of this.models()) {
+          model.object.visible = showModels;
+        }
       });
     });
   }
@@ -542,8 +852,11 @@ export class AppComponent implements AfterViewInit {
     this.renderer = new THREE.WebGLRenderer({ canvas, antialias: true, alpha: true, preserveDrawingBuffer: true });
     this.renderer.setPixelRatio(window.devicePixelRatio);
     this.renderer.setSize(window.innerWidth, window.innerHeight);
-    this.renderer.toneMapping = THREE.ACESFilmicToneMapping;
+    // The scene renders linear, exposure & the view transform are applied by the ViewTransformService pass
+    this.renderer.toneMapping = THREE.NoToneMapping;
     this.renderer.outputColorSpace = THREE.SRGBColorSpace;
+    // A P3 drawing buffer only helps on a wide-gamut display
+    this.isDisplayP3Supported.set('drawingBufferColorSpace' in this.renderer.getContext() && !!window.matchMedia?.('(color-gamut: p3)').matches);
     this.renderer.shadowMap.enabled = true;
     this.renderer.shadowMap.type = THREE.PCFSoftShadowMap;
     this.pmremGenerator = new THREE.PMREMGenerator(this.renderer);
@@ -726,88 +1039,886 @@ export class AppComponent implements AfterViewInit {
     // Note: Manual directional lights are added via setupLightEffects
   }
 
-  private loadHdri(url: string, message: string): void {
-    this.isLoading.set(true);
-    this.loadingMessage.set(message);
-    const loader = new HDRLoader();
-    // Ensure we get Float32Array so that sampling logic in addLightAt works correctly
-    loader.setDataType(THREE.FloatType); 
-    loader.load(url, (texture: THREE.DataTexture) => {
-        // Capture original data for tools (Light Editor & Preview)
-        const width = texture.image.width;
-        const height = texture.image.height;
-        const srcData = texture.image.data; // Float32Array
-
-        // Clone data for Light Editor/Preview so they match the original file (L->R)
-        this.currentHdriData = new Float32Array(srcData.length);
-        this.currentHdriData.set(srcData);
-        this.currentHdriWidth = width;
-        this.currentHdriHeight = height;
-        
-        // Generate Preview from original data
-        this.generateHdriPreview(this.currentHdriData, width, height);
+  /** Only 8-bit images depend on the expansion settings, so HDR files are not reloaded when they change. */
+  private getLdrOptions(name: string): LdrDecodeOptions | undefined {
+    return this.hdriDecoder.getFormat(name) === 'image'
+        ? { inverseTonemap: this.ldrInverseTonemap(), boostEv: this.ldrBoost() }
+        : undefined;
+  }
 
-        const envMap = this.pmremGenerator.fromEquirectangular(texture).texture;
-        this.scene.background = envMap;
-        this.scene.environment = envMap;
+  private async loadHdri(hdri: HDRI, message: string, ldrOptions?: LdrDecodeOptions): Promise<void> {
+    // Switching mid-load cancels the stale decode instead of letting it finish in the background
+    this.hdriLoadController?.abort();
+    const controller = new AbortController();
+    this.hdriLoadController = controller;
 
-        // Note: currentHdriData is already set above
+    // Only the first environment blocks the view; later ones decode in the background so the scene stays interactive
+    if (!this.scene?.environment) {
+        this.isLoading.set(true);
+        this.loadingMessage.set(message);
+    }
+    this.hdriLoadProgress.set({ message, progress: 0 });
+    this.hdriStats.set(null);
+    try {
+        // Decoded data is RGBA Float32 (top-down) for every format, so the Light Editor & Preview can sample it directly
+        const { hdri: decoded, environment, preview, stats, quality } = await this.hdriDecoder.decode(hdri.url, hdri.name, {
+            ldrOptions,
+            signal: controller.signal,
+            previewWidth: 512,
+            lowResWidth: 1024,
+            maxEnvironmentWidth: this.getMaxEnvironmentWidth(),
+            onProgress: (progress, stage) => {
+                if (!controller.signal.aborted) this.hdriLoadProgress.set({ message: stage, progress });
+            },
+            onLowRes: (lowRes, lowResPreview) => {
+                if (controller.signal.aborted) return;
+                // Large maps: show a quick 1k environment while the full resolution one is prepared
+                if (lowResPreview) this.showHdriPreview(lowResPreview);
+                // Probes and picks sample what is shown, not the previous HDRI
+                this.currentHdriSource.set(lowRes.source);
+                this.currentHdriData = lowRes.data;
+                this.currentHdriWidth = lowRes.width;
+                this.currentHdriHeight = lowRes.height;
+                this.applyEnvironment(lowRes);
+                this.isLoading.set(false);
+            }
+        });
+
+        this.currentHdriSource.set(decoded.source);
+        this.currentHdriData = decoded.data;
+        this.currentHdriWidth = decoded.width;
+        this.currentHdriHeight = decoded.height;
+        this.hdriStats.set(stats);
+        this.hdriQualityReports.update(reports => ({ ...reports, [hdri.name]: quality }));
         
-        // Ensure ambient light has a baseline
-        this.ambientLight.intensity = 0.2;
+        if (preview) this.showHdriPreview(preview);
+        this.updateFalseColorPreview();
+        this.applyEnvironment(environment);
 
-        texture.dispose();
+        this.hdriLoadProgress.set(null);
         this.isLoading.set(false);
-      }, undefined, (error: any) => {
-          console.error('An error occurred while loading the HDRI.', error);
-          this.loadingMessage.set('Error loading HDRI.');
-      }
-    );
+    } catch (error: any) {
+        if (error?.name === 'AbortError') return; // Superseded by a newer selection
+        console.error('An error occurred while loading the HDRI.', error);
+        this.hdriLoadProgress.set(null);
+        this.isLoading.set(true);
+        this.loadingMessage.set(error?.message ? `Error loading HDRI: ${error.message}` : 'Error loading HDRI.');
+        setTimeout(() => this.isLoading.set(false), 3000);
+    } finally {
+        if (this.hdriLoadController === controller) this.hdriLoadController = null;
+    }
+  }
+
+  /** Prefilters an equirect with PMREM and swaps it in as background & environment, releasing the previous one. */
+  private applyEnvironment(hdri: DecodedHdri): void {
+      const balanced = this.applyWhiteBalance(hdri);
+      const texture = this.hdriDecoder.createTexture(balanced);
+      const target = this.pmremGenerator.fromEquirectangular(texture);
+      texture.dispose();
+
+      this.scene.background = target.texture;
+      this.scene.environment = target.texture;
+      this.environmentTarget?.dispose();
+      this.environmentTarget = target;
+
+      this.currentEnvironment = hdri;
+      this.balancedEnvironment = balanced;
+      this.disposeFalseColorBackground();
+      this.syncFalseColorBackground();
+
+      // Ensure ambient light has a baseline
+      this.ambientLight.intensity = 0.2;
+  }
+
+  /**
+   * Resolves the environment size limit in pixels. 'auto' stays within the GPU texture limit
+   * and uses 2k on touch-first devices, whose memory is usually the bottleneck.
+   */
+  private getMaxEnvironmentWidth(): number {
+      const widths: Record<Exclude<EnvironmentSizeLimit, 'auto'>, number> = { '1k': 1024, '2k': 2048, '4k': 4096, '8k': 8192, original: 0 };
+      const maxTextureSize: number = this.renderer?.capabilities.maxTextureSize ?? 16384;
+      const limit = this.maxEnvironmentSize();
+      if (limit !== 'auto') return widths[limit] === 0 ? maxTextureSize : Math.min(widths[limit], maxTextureSize);
+
+      const isTouchDevice = window.matchMedia?.('(pointer: coarse)').matches;
+      return Math.min(isTouchDevice ? 2048 : 4096, maxTextureSize);
+  }
+
+  /** Compact display of a linear luminance value, switching to exponent notation outside 0.01-10000. */
+  formatLuminance(value: number): string {
+      if (value === 0) return '0';
+      return value >= 0.01 && value < 10000 ? value.toFixed(3) : value.toExponential(2);
+  }
+
+  /** Displays the tonemapped thumbnail produced by the decoder worker. */
+  private showHdriPreview(preview: PreviewImage): void {
+      this.hdriPreviewUrl.set(this.previewToDataUrl(preview));
   }
 
-  private generateHdriPreview(data: Float32Array | any, width: number, height: number): void {
-      // Render to a small offscreen canvas
+  private previewToDataUrl(preview: PreviewImage): string | null {
       const canvas = document.createElement('canvas');
-      // Limit resolution for performance
-      const maxWidth = 512;
-      const scale = Math.min(1, maxWidth / width);
-      canvas.width = Math.floor(width * scale);
-      canvas.height = Math.floor(height * scale);
-      
+      canvas.width = preview.width;
+      canvas.height = preview.height;
       const ctx = canvas.getContext('2d');
-      if (!ctx) return;
-      
-      const imgData = ctx.createImageData(canvas.width, canvas.height);
-      
-      // Simple loop with nearest neighbor sampling
-      for (let y = 0; y < canvas.height; y++) {
-          for (let x = 0; x < canvas.width; x++) {
-              // Map canvas pixel to texture pixel
-              const tx = Math.floor(x / scale);
-              const ty = Math.floor(y / scale);
-              
-              const srcIdx = (ty * width + tx) * 4; // Assuming 4 channels (RGBE or RGBA) or 3 if RGB
-              // HDRLoader usually returns RGB or RGBA float data.
-              
-              const r = data[srcIdx];
-              const g = data[srcIdx + 1];
-              const b = data[srcIdx + 2];
-              
-              // Simple Reinhard Tone Mapping: x / (x + 1) -> Gamma 2.2
-              const tm = (c: number) => Math.pow(c / (c + 1), 1 / 2.2) * 255;
-              
-              const dstIdx = (y * canvas.width + x) * 4;
-              imgData.data[dstIdx] = tm(r);
-              imgData.data[dstIdx + 1] = tm(g);
-              imgData.data[dstIdx + 2] = tm(b);
-              imgData.data[dstIdx + 3] = 255;
-          }
+      if (!ctx) return null;
+      ctx.putImageData(new ImageData(preview.pixels, preview.width, preview.height), 0, 0);
+      return canvas.toDataURL();
+  }
+
+  // --- False Color ---
+
+  private setupFalseColorEffects(): void {
+    runInInjectionContext(this.injector, () => {
+      // Background skybox follows the toggle and the ramp/zebra settings
+      effect(() => this.syncFalseColorBackground());
+
+      // Preview depends on exposure as well, since zones are read after exposure like on a camera monitor
+      effect(() => this.updateFalseColorPreview());
+    });
+  }
+
+  private syncFalseColorBackground(): void {
+      const settings = this.falseColorSettings();
+      if (!this.falseColorEnabled() || !this.balancedEnvironment) {
+          this.disposeFalseColorBackground();
+          return;
       }
-      
-      ctx.putImageData(imgData, 0, 0);
-      this.hdriPreviewUrl.set(canvas.toDataURL());
+      if (this.falseColorBackground) {
+          this.falseColor.updateBackground(this.falseColorBackground, settings);
+          return;
+      }
+      const texture = this.hdriDecoder.createTexture(this.balancedEnvironment);
+      this.falseColorBackground = this.falseColor.createBackground(texture, settings);
+      this.scene.add(this.falseColorBackground);
+  }
+
+  private disposeFalseColorBackground(): void {
+      const mesh = this.falseColorBackground;
+      if (!mesh) return;
+      this.scene.remove(mesh);
+      const material = mesh.material as THREE.ShaderMaterial;
+      material.uniforms['map'].value.dispose();
+      material.dispose();
+      mesh.geometry.dispose();
+      this.falseColorBackground = null;
+  }
+
+  private updateFalseColorPreview(): void {
+      const settings = this.falseColorSettings();
+      const exposure = this.exposure();
+      if (!this.falseColorEnabled() || !this.currentHdriData) {
+          this.falseColorPreviewUrl.set(null);
+          return;
+      }
+      const hdri: DecodedHdri = { width: this.currentHdriWidth, height: this.currentHdriHeight, data: this.currentHdriData, source: this.currentHdriSource() ?? 'hdr' };
+      this.falseColorPreviewUrl.set(this.previewToDataUrl(this.falseColor.renderPreview(hdri, settings, exposure, 512)));
   }
   
+  // --- White Balance ---
+
+  private setupWhiteBalanceEffects(): void {
+    runInInjectionContext(this.injector, () => {
+      // Re-prefilter the environment once the sliders settle; lights follow in setupLightEffects
+      effect(() => {
+        this.whiteBalanceMatrix();
+        if (this.whiteBalanceTimeoutId) clearTimeout(this.whiteBalanceTimeoutId);
+        this.whiteBalanceTimeoutId = setTimeout(() => {
+            this.whiteBalanceTimeoutId = null;
+            if (this.currentEnvironment) this.applyEnvironment(this.currentEnvironment);
+            if (this.compareEnvironment) this.applyCompareEnvironment(this.compareEnvironment);
+        }, 150);
+      });
+    });
+  }
+
+  /** Copy of the equirect with the current white balance applied (the input itself when neutral). */
+  private applyWhiteBalance(hdri: DecodedHdri): DecodedHdri {
+      const m = this.whiteBalanceMatrix();
+      if (isIdentityColorMatrix(m)) return hdri;
+      const src = hdri.data;
+      const data = new Float32Array(src.length);
+      for (let i = 0; i < src.length; i += 4) {
+          const r = src[i], g = src[i + 1], b = src[i + 2];
+          data[i] = m[0] * r + m[1] * g + m[2] * b;
+          data[i + 1] = m[3] * r + m[4] * g + m[5] * b;
+          data[i + 2] = m[6] * r + m[7] * g + m[8] * b;
+          data[i + 3] = src[i + 3];
+      }
+      return { ...hdri, data };
+  }
+
+  private estimateTemperature(r: number, g: number, b: number): ColorTemperature | null {
+      const xy = chromaticity(r, g, b);
+      return xy ? xyToCct(xy.x, xy.y) : null;
+  }
+
+  /** Sets the white balance so that a light of this (linear, unbalanced) color renders neutral. */
+  private setWhiteBalanceFromColor(r: number, g: number, b: number): void {
+      const temperature = this.estimateTemperature(r, g, b);
+      if (!temperature) return;
+      this.whiteBalanceTemperature.set(Math.round(temperature.cct));
+      this.whiteBalanceTint.set(temperature.duv);
+  }
+
+  /** Gray world: neutralizes the average color of the environment. */
+  autoWhiteBalance(): void {
+      const stats = this.hdriStats();
+      if (stats) this.setWhiteBalanceFromColor(...stats.meanColor);
+  }
+
+  resetWhiteBalance(): void {
+      this.whiteBalanceTemperature.set(Math.round(NEUTRAL_WHITE_BALANCE.cct));
+      this.whiteBalanceTint.set(NEUTRAL_WHITE_BALANCE.duv);
+  }
+
+  /**
+   * Neutral pick in the 3D view. A gray color checker patch takes on the color of the light falling on it
+   * (environment irradiance for its orientation plus the manual lights); anything else reads the background pixel.
+   */
+  private pickNeutral(): void {
+      if (!this.currentHdriData) return;
+      const hdri: DecodedHdri = { width: this.currentHdriWidth, height: this.currentHdriHeight, data: this.currentHdriData, source: this.currentHdriSource() ?? 'hdr' };
+      const orientation = this.orientation();
+
+      const hit = this.raycaster.intersectObjects(this.selectableObjects.filter(o => o.visible))[0];
+      if (hit?.object.name === 'Color Checker' && hit.face) {
+          const albedo = ((hit.object as THREE.Mesh).material as THREE.MeshStandardMaterial).color;
+          const max = Math.max(albedo.r, albedo.g, albedo.b);
+          if (max === 0 || max - Math.min(albedo.r, albedo.g, albedo.b) > 0.02 * max) {
+              alert('Pick one of the gray patches of the color checker.');
+              return;
+          }
+          const normal = hit.face.normal.clone().transformDirection(hit.object.matrixWorld);
+          const irradiance = this.lightExtraction.irradianceAt(hdri, worldToHdri(normal.clone(), orientation));
+          this.manualLights().forEach(light => {
+              const cosine = hdriToWorld(equirectUvToDirection(light.u, light.v), orientation).dot(normal);
+              if (cosine <= 0) return;
+              const color = new THREE.Color(light.color);
+              irradiance[0] += color.r * light.intensity * cosine;
+              irradiance[1] += color.g * light.intensity * cosine;
+              irradiance[2] += color.b * light.intensity * cosine;
+          });
+          this.setWhiteBalanceFromColor(...irradiance);
+      } else if (!hit) {
+          const { u, v } = directionToEquirectUv(worldToHdri(this.raycaster.ray.direction.clone(), orientation));
+          const pixel = this.sampleHdri(u, v);
+          if (pixel) this.setWhiteBalanceFromColor(...pixel);
+      } else {
+          return; // Keep picking until the background or a gray patch is hit
+      }
+      this.isPickingNeutral.set(false);
+  }
+
+  // --- A/B Compare ---
+
+  private setupCompareEffects(): void {
+    runInInjectionContext(this.injector, () => {
+      // Load side B when it is picked; the resolution limit and LDR expansion apply to it as well
+      effect(() => {
+        const url = this.compareHdriUrl();
+        this.maxEnvironmentSize();
+        const hdri = url ? untracked(() => this.hdriList().find(h => h.url === url)) : undefined;
+        if (hdri) {
+            this.loadCompareHdri(hdri, this.getLdrOptions(hdri.name));
+        } else {
+            this.disposeCompare();
+        }
+      });
+
+      // Side B's own lights, stored with its list entry (the live ones when both sides show the same HDRI)
+      effect(() => {
+        const name = this.isComparing() ? this.compareHdriName() : null;
+        const lights = !name ? [] : name === this.selectedHdriName() ? this.manualLights() : this.hdriList().find(h => h.name === name)?.lights ?? [];
+        const orientation = this.compareOrientation();
+        const balance = this.whiteBalanceMatrix();
+
+        while (this.compareLights.length > lights.length) this.removeLightObject(this.compareLights.pop()!);
+        while (this.compareLights.length < lights.length) this.compareLights.push(this.createManualLightObject());
+        lights.forEach((lightData, i) => {
+            this.updateManualLightObject(this.compareLights[i], lightData, orientation, balance);
+            this.compareLights[i].visible = false; // Only switched on while side B renders
+        });
+      });
+    });
+  }
+
+  /** Decodes side B with the same options as the main HDRI and keeps only its environment. */
+  private async loadCompareHdri(hdri: HDRI, ldrOptions?: LdrDecodeOptions): Promise<void> {
+    this.compareLoadController?.abort();
+    const controller = new AbortController();
+    this.compareLoadController = controller;
+    this.isCompareLoading.set(true);
+    try {
+        const { environment } = await this.hdriDecoder.decode(hdri.url, hdri.name, {
+            ldrOptions,
+            signal: controller.signal,
+            maxEnvironmentWidth: this.getMaxEnvironmentWidth(),
+        });
+        this.applyCompareEnvironment(environment);
+    } catch (error: any) {
+        if (error?.name === 'AbortError') return;
+        console.error('Failed to load the comparison HDRI:', error);
+        alert(`Failed to load ${hdri.name} for comparison.`);
+        this.compareHdriName.set(null);
+    } finally {
+        if (this.compareLoadController === controller) {
+            this.compareLoadController = null;
+            this.isCompareLoading.set(false);
+        }
+    }
+  }
+
+  private applyCompareEnvironment(hdri: DecodedHdri): void {
+      const texture = this.hdriDecoder.createTexture(this.applyWhiteBalance(hdri));
+      const target = this.pmremGenerator.fromEquirectangular(texture);
+      texture.dispose();
+      this.compareTarget?.dispose();
+      this.compareTarget = target;
+      this.compareEnvironment = hdri;
+  }
+
+  private disposeCompare(): void {
+      this.compareLoadController?.abort();
+      this.compareLoadController = null;
+      this.isCompareLoading.set(false);
+      this.compareTarget?.dispose();
+      this.compareTarget = null;
+      this.compareEnvironment = null;
+  }
+
+  /** Removes side B's lights; the compare lights effect rebuilds them from the restored list. */
+  private clearCompareLights(): void {
+      this.compareLights.forEach(light => this.removeLightObject(light));
+      this.compareLights = [];
+  }
+
+  private removeLightObject(light: THREE.DirectionalLight): void {
+      this.scene.remove(light);
+      this.scene.remove(light.target);
+      light.dispose();
+  }
+
+  /**
+   * Renders side A as usual, then the same scene, camera and materials with side B's environment,
+   * lights and exposure swapped in, each clipped to its part of the canvas.
+   */
+  private renderCompare(): void {
+      const [paneA, paneB] = this.viewPanes();
+      this.renderPane(paneA, this.getViewSettings());
+
+      const { background, environment } = this.scene;
+      const backgroundRotation = this.scene.backgroundRotation.clone();
+      const environmentRotation = this.scene.environmentRotation.clone();
+      // Everything tied to side A's HDRI is hidden for side B
+      const sideAObjects = [
+          ...this.manualLights().map(l => l.instance).filter((light): light is THREE.DirectionalLight => !!light),
+          this.falseColorBackground,
+          this.shPreviewSphere,
+      ].filter((object): object is THREE.Object3D => !!object && object.visible);
+
+      this.scene.background = this.compareTarget!.texture;
+      this.scene.environment = this.compareTarget!.texture;
+      orientationToEuler(this.compareOrientation(), this.scene.backgroundRotation);
+      this.scene.environmentRotation.copy(this.scene.backgroundRotation);
+      sideAObjects.forEach(object => object.visible = false);
+      this.compareLights.forEach(light => light.visible = true);
+
+      this.renderPane(paneB, this.getViewSettings(this.viewTransform(), this.compareExposure()));
+
+      this.scene.background = background;
+      this.scene.environment = environment;
+      this.scene.backgroundRotation.copy(backgroundRotation);
+      this.scene.environmentRotation.copy(environmentRotation);
+      sideAObjects.forEach(object => object.visible = true);
+      this.compareLights.forEach(light => light.visible = false);
+      this.resetPanes();
+  }
+
+  /** Starts dragging a wipe divider; follows the pointer until it is released. */
+  onWipePointerDown(event: PointerEvent, wipe: WritableSignal<number>): void {
+      event.preventDefault();
+      const rect = this.renderer.domElement.getBoundingClientRect();
+      const move = (e: PointerEvent) => wipe.set(Math.min(1, Math.max(0, (e.clientX - rect.left) / rect.width)));
+      const up = () => {
+          window.removeEventListener('pointermove', move);
+          window.removeEventListener('pointerup', up);
+      };
+      window.addEventListener('pointermove', move);
+      window.addEventListener('pointerup', up);
+  }
+
+  // --- Tone Mapping Compare ---
+
+  /** The two compare modes split the canvas differently, so only one is on at a time. */
+  setToneCompareMode(enabled: boolean): void {
+      this.isToneCompareMode.set(enabled);
+      if (enabled) this.isCompareMode.set(false);
+  }
+
+  setCompareMode(enabled: boolean): void {
+      this.isCompareMode.set(enabled);
+      if (enabled) this.isToneCompareMode.set(false);
+  }
+
+  setToneCompareTransform(index: number, transform: ViewTransform): void {
+      this.toneCompareTransforms.update(transforms => transforms.map((t, i) => i === index ? transform : t));
+  }
+
+  /** Renders every pane with its own view transform; the camera, scene, exposure and look are shared. */
+  private renderToneCompare(): void {
+      const transforms = this.toneCompareTransforms();
+      this.viewPanes().forEach((pane, i) => this.renderPane(pane, this.getViewSettings(transforms[i])));
+      this.resetPanes();
+  }
+
+  private wipePanes(split: number): ViewPane[] {
+      const full = { x: 0, y: 0, width: 1, height: 1 };
+      return [
+          { viewport: full, scissor: { x: 0, y: 0, width: split, height: 1 } },
+          { viewport: full, scissor: { x: split, y: 0, width: 1 - split, height: 1 } },
+      ];
+  }
+
+  /** 1-3 panes side by side, 4 as a 2x2 grid, in reading order. */
+  private tilePanes(count: number): ViewPane[] {
+      const columns = count === 4 ? 2 : count;
+      const rows = Math.ceil(count / columns);
+      return Array.from({ length: count }, (_, i) => {
+          const rect = {
+              x: (i % columns) / columns,
+              y: 1 - (Math.floor(i / columns) + 1) / rows,
+              width: 1 / columns,
+              height: 1 / rows,
+          };
+          return { viewport: rect, scissor: rect };
+      });
+  }
+
+  /** Renders the scene into one pane, with the camera aspect matched to the pane's viewport. */
+  private renderPane(pane: ViewPane, settings: ViewSettings): void {
+      const size = this.renderer.getSize(new THREE.Vector2());
+      const { viewport, scissor } = pane;
+      const aspect = this.camera.aspect;
+      this.setCameraAspect(aspect * viewport.width / viewport.height);
+      this.renderer.setScissorTest(true);
+      this.renderer.setViewport(viewport.x * size.x, viewport.y * size.y, viewport.width * size.x, viewport.height * size.y);
+      this.renderer.setScissor(Math.round(scissor.x * size.x), Math.round(scissor.y * size.y),
+          Math.round(scissor.width * size.x), Math.round(scissor.height * size.y));
+      this.viewTransformPass.render(this.renderer, this.scene, this.camera, settings);
+      this.setCameraAspect(aspect);
+  }
+
+  private resetPanes(): void {
+      const size = this.renderer.getSize(new THREE.Vector2());
+      this.renderer.setScissorTest(false);
+      this.renderer.setViewport(0, 0, size.x, size.y);
+  }
+
+  private getViewSettings(transform = this.viewTransform(), exposure = this.exposure()): ViewSettings {
+      return { transform, look: this.viewLook(), exposure, lut: this.selectedLut()?.lut ?? null, lutIntensity: this.lutIntensity(), channel: this.viewChannel(), gamutWarning: this.gamutWarning() };
+  }
+
+  /** Draws the current view (single, A/B or tone mapping compare) to the canvas. */
+  private renderView(): void {
+      if (this.isToneCompareMode()) {
+          this.renderToneCompare();
+      } else if (this.isComparing() && this.compareTarget) {
+          this.renderCompare();
+      } else {
+          this.viewTransformPass.render(this.renderer, this.scene, this.camera, this.getViewSettings());
+      }
+  }
+
+  // --- Quality Check ---
+
+  /**
+   * Decodes every HDRI in the list that has no report yet, one at a time in the decoder worker,
+   * and keeps only the quality report.
+   */
+  async checkAllHdris(): Promise<void> {
+      if (this.qualityCheckProgress()) return;
+      const pending = this.hdriList().filter(hdri => !this.hdriQualityReports()[hdri.name]);
+      this.qualityCheckProgress.set({ done: 0, total: pending.length });
+      try {
+          for (const [i, hdri] of pending.entries()) {
+              try {
+                  const quality = await this.hdriDecoder.checkQuality(hdri.url, hdri.name, { ldrOptions: this.getLdrOptions(hdri.name) });
+                  this.hdriQualityReports.update(reports => ({ ...reports, [hdri.name]: quality }));
+              } catch (error) {
+                  console.error(`Quality check failed for ${hdri.name}:`, error);
+              }
+              this.qualityCheckProgress.set({ done: i + 1, total: pending.length });
+          }
+      } finally {
+          this.qualityCheckProgress.set(null);
+      }
+  }
+
+  // --- Spherical Harmonics ---
+
+  private setupSphericalHarmonicsEffects(): void {
+    runInInjectionContext(this.injector, () => {
+      // hdriStats is replaced together with currentHdriData, so it doubles as the "new HDRI" trigger
+      effect(() => {
+        const stats = this.hdriStats();
+        const orientation = this.orientation();
+        const colorMatrix = this.whiteBalanceMatrix();
+        const needed = this.isAnalysisPanelOpen() || this.isShPreviewVisible();
+        if (!stats || !needed || !this.currentHdriData) {
+            this.sphericalHarmonics.set(null);
+            return;
+        }
+        const hdri: DecodedHdri = { width: this.currentHdriWidth, height: this.currentHdriHeight, data: this.currentHdriData, source: this.currentHdriSource() ?? 'hdr' };
+        this.sphericalHarmonics.set(this.sphericalHarmonicsService.project(hdri, orientation, colorMatrix));
+      });
+
+      effect(() => {
+        const sh = this.sphericalHarmonics();
+        const albedo = new THREE.Color(this.matteColor());
+        if (!this.isShPreviewVisible() || !sh) {
+            this.removeShPreviewSphere();
+            return;
+        }
+        if (this.shPreviewSphere) {
+            this.sphericalHarmonicsService.updatePreviewMaterial(this.shPreviewSphere.material as THREE.ShaderMaterial, sh, albedo);
+            return;
+        }
+        // Next to the glass sphere, using the matte sphere's color so both diffuse results can be compared side by side
+        const sphere = new THREE.Mesh(new THREE.SphereGeometry(0.75, 64, 64), this.sphericalHarmonicsService.createPreviewMaterial(sh, albedo));
+        sphere.position.set(-4.17, 0.75, 0);
+        sphere.name = 'SH Preview';
+        this.scene.add(sphere);
+        this.shPreviewSphere = sphere;
+      });
+    });
+  }
+
+  private removeShPreviewSphere(): void {
+      if (!this.shPreviewSphere) return;
+      this.scene.remove(this.shPreviewSphere);
+      this.shPreviewSphere.geometry.dispose();
+      (this.shPreviewSphere.material as THREE.Material).dispose();
+      this.shPreviewSphere = null;
+  }
+
+  exportSphericalHarmonics(format: 'json' | 'c'): void {
+      const sh = this.sphericalHarmonics();
+      if (!sh) return;
+      const info = {
+          name: this.selectedHdriName() || 'environment',
+          orientation: this.orientation(),
+          whiteBalance: { temperature: this.whiteBalanceTemperature(), tint: this.whiteBalanceTint() },
+      };
+      const text = format === 'json' ? this.sphericalHarmonicsService.toJson(sh, info) : this.sphericalHarmonicsService.toCArray(sh, info);
+      const blob = new Blob([text], { type: format === 'json' ? 'application/json' : 'text/plain' });
+      const hdriName = this.selectedHdriName()?.replace(/\.[^.]+$/, '') || 'environment';
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `${hdriName}-sh9.${format === 'json' ? 'json' : 'h'}`;
+      document.body.appendChild(a);
+      a.click();
+      document.body.removeChild(a);
+      URL.revokeObjectURL(url);
+  }
+
+  // --- Prefiltered Environment Export ---
+
+  /**
+   * Zips the diffuse irradiance map, the specular mip chain read back from the current PMREM and a manifest.
+   * Uses the uploaded (possibly size-limited) environment, so it matches what the viewer renders.
+   */
+  async exportPrefiltered(): Promise<void> {
+    if (!this.environmentTarget || !this.balancedEnvironment) return;
+    this.isLoading.set(true);
+    this.loadingMessage.set('Prefiltering environment...');
+    await new Promise(resolve => setTimeout(resolve, 50));
+    try {
+        const options = { layout: this.prefilterLayout(), size: this.prefilterSize(), orientation: this.orientation(), exposure: this.exposure() };
+        const specular = this.prefilteredEnvironment.renderSpecularLevels(this.renderer, this.environmentTarget, options);
+        const irradiance = this.prefilteredEnvironment.computeIrradiance(this.balancedEnvironment, options);
+
+        const format = this.exportFormat();
+        const hdriName = this.selectedHdriName()?.replace(/\.[^.]+$/, '') || 'environment';
+        const { manifest, files } = this.prefilteredEnvironment.createManifest(irradiance, specular, {
+            name: this.selectedHdriName() || 'environment',
+            extension: format === 'hdr' ? 'hdr' : 'exr',
+            layout: options.layout,
+            orientation: options.orientation,
+            exposure: options.exposure,
+            whiteBalance: { temperature: this.whiteBalanceTemperature(), tint: this.whiteBalanceTint() },
+        });
+        const entries = await Promise.all(files.map(async file => {
+            const blob = format === 'hdr'
+                ? this.hdriEncoder.encodeRadiance(file.image)
+                : this.hdriEncoder.encodeExr(file.image, format === 'exr-half' ? 'half' : 'float');
+            return { name: `${hdriName}-prefiltered/${file.name}`, data: new Uint8Array(await blob.arrayBuffer()) };
+        }));
+        entries.unshift({ name: `${hdriName}-prefiltered/manifest.json`, data: new TextEncoder().encode(manifest) });
+
+        const url = URL.createObjectURL(createZip(entries));
+        const a = document.createElement('a');
+        a.href = url;
+        a.download = `${hdriName}-prefiltered.zip`;
+        document.body.appendChild(a);
+        a.click();
+        document.body.removeChild(a);
+        URL.revokeObjectURL(url);
+    } catch (error) {
+        console.error('Failed to export prefiltered environment:', error);
+        alert('Failed to export prefiltered environment.');
+    } finally {
+        this.isLoading.set(false);
+    }
+  }
+
+  /**
+   * Renders every HDRI in the list (optionally under every built-in preset) into a fixed-size frame
+   * with the current camera, materials, orientation and exposure, and saves them as one labelled PNG.
+   */
+  async exportContactSheet(): Promise<void> {
+    const hdris = this.hdriList();
+    if (hdris.length === 0) return;
+    const presets: (Preset | null)[] = this.contactSheetAllPresets() ? this.presets.filter(p => p !== 'Custom') : [null];
+    const tileWidth = this.contactSheetTileWidth();
+    const tileHeight = Math.round(tileWidth * 3 / 4);
+    const presetData = this.getPresetData();
+    // Presets such as Grayscale hide color checker rows, which the preset data does not cover
+    const checkerRows = this.colorCheckerPatches.map(row => row.map(patch => patch.visible));
+    const hiddenObjects = [
+        ...this.manualLights().map(l => l.instance).filter((light): light is THREE.DirectionalLight => !!light),
+        this.falseColorBackground,
+        this.shPreviewSphere,
+    ].filter((object): object is THREE.Object3D => !!object && object.visible);
+    const tiles: ContactSheetTile[] = [];
+
+    this.isLoading.set(true);
+    try {
+        for (const [index, hdri] of hdris.entries()) {
+            this.loadingMessage.set(`Rendering contact sheet (${index + 1}/${hdris.length})...`);
+            const current = hdri.name === this.selectedHdriName() && this.environmentTarget;
+            let target: THREE.WebGLRenderTarget | null = null;
+            if (!current) {
+                const { environment } = await this.hdriDecoder.decode(hdri.url, hdri.name, {
+                    ldrOptions: this.getLdrOptions(hdri.name),
+                    maxEnvironmentWidth: this.getMaxEnvironmentWidth(),
+                });
+                const texture = this.hdriDecoder.createTexture(this.applyWhiteBalance(environment));
+                target = this.pmremGenerator.fromEquirectangular(texture);
+                texture.dispose();
+            }
+            const lights = current ? this.manualLights() : hdri.lights;
+
+            for (const preset of presets) {
+                if (preset) {
+                    this.applyPresetMaterials(preset);
+                    // Let the material & visibility effects run
+                    await new Promise(resolve => setTimeout(resolve, 50));
+                }
+                const caption = `Exposure ${this.exposure().toFixed(2)} · Rotation ${this.rotation().toFixed(2)}` + (preset ? ` · ${preset}` : '');
+                tiles.push({ image: this.renderContactSheetFrame(target, lights, hiddenObjects, tileWidth, tileHeight), title: hdri.name, caption });
+            }
+            target?.dispose();
+        }
+
+        const blob = await this.contactSheet.compose(tiles, {
+            tileWidth,
+            tileHeight,
+            columns: presets.length > 1 ? presets.length : Math.min(4, Math.ceil(Math.sqrt(tiles.length))),
+        });
+        const url = URL.createObjectURL(blob);
+        const a = document.createElement('a');
+        a.href = url;
+        a.download = 'contact-sheet.png';
+        document.body.appendChild(a);
+        a.click();
+        document.body.removeChild(a);
+        URL.revokeObjectURL(url);
+    } catch (error) {
+        console.error('Failed to render contact sheet:', error);
+        alert('Failed to render contact sheet.');
+    } finally {
+        if (presets[0]) {
+            this.applyPresetData(presetData);
+            this.colorCheckerPatches.forEach((row, r) => row.forEach((patch, c) => patch.visible = checkerRows[r][c]));
+        }
+        this.isLoading.set(false);
+    }
+  }
+
+  /**
+   * Renders one frame at a fixed size with another environment and its lights swapped in (or the
+   * current ones when `target` is null) and copies it out. All synchronous, so the viewer never shows it.
+   */
+  private renderContactSheetFrame(target: THREE.WebGLRenderTarget | null, lights: ManualLight[], hiddenObjects: THREE.Object3D[],
+                                  width: number, height: number): HTMLCanvasElement {
+      const { background, environment } = this.scene;
+      const size = this.renderer.getSize(new THREE.Vector2());
+      const pixelRatio = this.renderer.getPixelRatio();
+      const aspect = this.camera.aspect;
+      const lightObjects = lights.map(lightData => {
+          const light = this.createManualLightObject();
+          this.updateManualLightObject(light, lightData, this.orientation(), this.whiteBalanceMatrix());
+          return light;
+      });
+      if (target) {
+          this.scene.background = target.texture;
+          this.scene.environment = target.texture;
+      }
+      hiddenObjects.forEach(object => object.visible = false);
+      this.renderer.setPixelRatio(1);
+      this.renderer.setSize(width, height, false);
+      this.setCameraAspect(width / height);
+      this.viewTransformPass.render(this.renderer, this.scene, this.camera, this.getViewSettings());
+
+      // Copy before the drawing buffer is cleared for the next frame
+      const frame = document.createElement('canvas');
+      frame.width = width;
+      frame.height = height;
+      frame.getContext('2d')!.drawImage(this.renderer.domElement, 0, 0);
+
+      this.scene.background = background;
+      this.scene.environment = environment;
+      hiddenObjects.forEach(object => object.visible = true);
+      lightObjects.forEach(light => this.removeLightObject(light));
+      this.renderer.setPixelRatio(pixelRatio);
+      this.renderer.setSize(size.x, size.y, false);
+      this.setCameraAspect(aspect);
+      return frame;
+  }
+
+  // --- Exposure ---
+
+  private setupExposureEffects(): void {
+    runInInjectionContext(this.injector, () => {
+      // Re-meter for a new HDRI, orientation or metering mode while auto exposure is on and not locked
+      effect(() => {
+        this.hdriStats();
+        this.orientation();
+        this.meteringMode();
+        if (this.isAutoExposure() && !this.isExposureLocked()) untracked(() => this.meterExposure());
+      });
+    });
+    // Center-weighted metering follows the view
+    this.controls.addEventListener('change', () => {
+        if (this.meteringMode() === 'Center-weighted') this.meterExposure();
+    });
+  }
+
+  /** Manual exposure from the slider, EV100 or the camera settings; this ends auto exposure. */
+  setExposure(value: number): void {
+    this.isAutoExposure.set(false);
+    this.exposure.set(value);
+  }
+
+  setExposureEv100(ev100: number): void {
+    this.setExposure(exposureFromEv100(ev100));
+  }
+
+  setCameraStops(setting: keyof CameraExposure, stops: number): void {
+    const value = setting === 'iso' ? 100 * Math.pow(2, stops) : setting === 'shutter' ? Math.pow(2, stops) : Math.pow(2, stops / 2);
+    const camera = { ...this.cameraExposure(), [setting]: value };
+    this.cameraExposure.set(camera);
+    this.setExposure(exposureFromEv100(ev100FromCamera(camera)));
+  }
+
+  /** Switching to camera settings keeps the exposure by picking the shutter, as aperture priority would. */
+  setExposureMode(mode: ExposureMode): void {
+    if (mode === 'Camera') this.cameraExposure.update(camera => ({ ...camera, shutter: shutterForEv100(this.exposureEv100(), camera) }));
+    this.exposureMode.set(mode);
+  }
+
+  setAutoExposure(enabled: boolean): void {
+    this.isAutoExposure.set(enabled);
+    this.isExposureLocked.set(false);
+    if (!enabled) this.isPickingMeteringSpot.set(false);
+  }
+
+  /** Meters with the current mode and applies the result, unless auto exposure is off or locked. */
+  private meterExposure(): void {
+    if (!this.isAutoExposure() || this.isExposureLocked()) return;
+    let metered: number | null = null;
+    if (this.meteringMode() === 'Spot') {
+        if (this.meteringSpot) metered = this.viewTransformPass.meterSpot(this.renderer, this.scene, this.meteringSpot, this.camera.near, this.camera.far);
+    } else if (this.currentHdriData) {
+        const hdri: DecodedHdri = { width: this.currentHdriWidth, height: this.currentHdriHeight, data: this.currentHdriData, source: this.currentHdriSource() ?? 'hdr' };
+        const view = this.meteringMode() === 'Center-weighted' ? worldToHdri(this.camera.getWorldDirection(new THREE.Vector3()), this.orientation()) : null;
+        metered = meterEnvironment(hdri, view);
+    }
+    if (metered === null) return;
+
+    const ev100 = ev100FromLuminance(metered);
+    if (this.exposureMode() === 'Camera') this.cameraExposure.update(camera => ({ ...camera, shutter: shutterForEv100(ev100, camera) }));
+    this.exposure.set(exposureFromEv100(ev100));
+  }
+
+  /** 1/250 s below half a second, 0.5 s and up in seconds. */
+  formatShutter(seconds: number): string {
+    return seconds >= 0.5 ? `${+seconds.toFixed(1)} s` : `1/${Math.round(1 / seconds)} s`;
+  }
+
+  // --- Pixel Probe ---
+
+  /** Reads the HDR value at an equirect UV. */
+  private probeAt(u: number, v: number, source: PixelProbe['source'], event: MouseEvent): PixelProbe | null {
+      const pixel = this.sampleHdri(u, v);
+      if (!pixel) return null;
+      const [r, g, b] = pixel;
+      const lum = luminance(r, g, b);
+
+      // Direction as seen in the scene, so the readout follows the Rotate slider
+      const direction = hdriToWorld(equirectUvToDirection(u, v), this.orientation());
+      const azimuth = MathUtils.radToDeg(Math.atan2(direction.x, direction.z));
+
+      return {
+          source,
+          clientX: event.clientX,
+          clientY: event.clientY,
+          r, g, b,
+          luminance: lum,
+          nits: lum * RADIANCE_EFFICACY,
+          ev: Math.log2(Math.max(lum, 1e-10) / MIDDLE_GRAY),
+          chromaticity: chromaticity(r, g, b),
+          azimuth: (azimuth + 360) % 360,
+          elevation: MathUtils.radToDeg(Math.asin(MathUtils.clamp(direction.y, -1, 1))),
+      };
+  }
+
+  private onScenePointerMove(event: PointerEvent): void {
+      if (!this.isBackgroundProbeActive() || event.buttons !== 0) {
+          this.clearPixelProbe('background');
+          return;
+      }
+      // Side B shows another HDRI, the probe reads side A only
+      if (this.setRaycasterFromEvent(event) === 1 && this.isComparing()) {
+          this.clearPixelProbe('background');
+          return;
+      }
+
+      // Only the background is probed; visible objects in front of it hide it
+      const isVisible = (object: THREE.Object3D | null): boolean => !object || (object.visible && isVisible(object.parent));
+      if (this.raycaster.intersectObjects(this.selectableObjects, true).some(hit => isVisible(hit.object))) {
+          this.clearPixelProbe('background');
+          return;
+      }
+
+      const { u, v } = directionToEquirectUv(worldToHdri(this.raycaster.ray.direction.clone(), this.orientation()));
+      this.pixelProbe.set(this.probeAt(u, v, 'background', event));
+  }
+
+  clearPixelProbe(source: PixelProbe['source']): void {
+      if (this.pixelProbe()?.source === source) this.pixelProbe.set(null);
+  }
+
+  /** Nearest pixel of the full-resolution data at an equirect UV. */
+  private sampleHdri(u: number, v: number): [number, number, number] | null {
+      if (!this.currentHdriData) return null;
+      const x = Math.min(this.currentHdriWidth - 1, Math.floor(u * this.currentHdriWidth));
+      const y = Math.min(this.currentHdriHeight - 1, Math.floor(v * this.currentHdriHeight));
+      const idx = (y * this.currentHdriWidth + x) * 4;
+      return [this.currentHdriData[idx], this.currentHdriData[idx + 1], this.currentHdriData[idx + 2]];
+  }
+
   // --- Light Editor Logic ---
   
   private calculateUV(event: MouseEvent, imgElement: HTMLElement): {u: number, v: number} {
@@ -844,11 +1955,16 @@ export class AppComponent implements AfterViewInit {
   }
 
   onHdriPreviewClick(event: MouseEvent): void {
-      if (!this.currentHdriData) return;
+      // The image only renders once a preview exists (not while loading or after a decode error)
+      if (!this.currentHdriData || !this.hdriPreviewImage) return;
       if (this.isDraggingLight) return; // Ignore click if we just finished dragging
 
       // Original Add logic
       const { u, v } = this.calculateUV(event, this.hdriPreviewImage.nativeElement);
+      if (this.isLevelingHorizon()) {
+          this.addHorizonPoint(u, v);
+          return;
+      }
       
       // Check collision
       const existing = this.manualLights().find(l => {
@@ -864,6 +1980,37 @@ export class AppComponent implements AfterViewInit {
       }
   }
   
+  /** Starts the level horizon tool: the next two clicks on the preview mark points on the horizon. */
+  startHorizonLevelling(): void {
+      this.isLightEditorOpen.set(true);
+      this.isMaterialEditorOpen.set(false);
+      this.isAnalysisPanelOpen.set(false);
+      this.horizonPoints.set([]);
+      this.isLevelingHorizon.set(true);
+  }
+
+  cancelHorizonLevelling(): void {
+      this.isLevelingHorizon.set(false);
+      this.horizonPoints.set([]);
+  }
+
+  private addHorizonPoint(u: number, v: number): void {
+      const points = [...this.horizonPoints(), { u, v }];
+      if (points.length < 2) {
+          this.horizonPoints.set(points);
+          return;
+      }
+      const level = levelHorizon(points[0], points[1]);
+      if (!level) {
+          alert('The two points are too close together (or exactly opposite). Pick two points further apart on the horizon.');
+          this.horizonPoints.set([]);
+          return;
+      }
+      this.pitch.set(Math.round(level.pitch * 100) / 100);
+      this.roll.set(Math.round(level.roll * 100) / 100);
+      this.cancelHorizonLevelling();
+  }
+
   onLightMarkerMouseDown(event: MouseEvent, id: string): void {
       event.preventDefault();
       event.stopPropagation();
@@ -872,6 +2019,10 @@ export class AppComponent implements AfterViewInit {
   }
   
   onHdriPreviewMouseMove(event: MouseEvent): void {
+      if (!this.hdriPreviewImage) return;
+      const { u: probeU, v: probeV } = this.calculateUV(event, this.hdriPreviewImage.nativeElement);
+      this.pixelProbe.set(this.probeAt(probeU, probeV, 'preview', event));
+
       if (!this.isDraggingLight) return;
       
       const id = this.selectedLightId();
@@ -885,31 +2036,24 @@ export class AppComponent implements AfterViewInit {
       this.isDraggingLight = false;
   }
   
+  /**
+   * Adds a light for the source under (u, v). Both picking paths (preview click and chrome sphere) measure it
+   * the same way: position, color and intensity come from the radiance integrated over the source region.
+   */
   private addLightAt(u: number, v: number): void {
       if (!this.currentHdriData) return;
       
-      // Sample HDRI Data
-      const x = Math.floor(u * this.currentHdriWidth);
-      const y = Math.floor(v * this.currentHdriHeight);
-      const idx = (y * this.currentHdriWidth + x) * 4; // Assuming RGBA Float
-      
-      const r = this.currentHdriData[idx];
-      const g = this.currentHdriData[idx + 1];
-      const b = this.currentHdriData[idx + 2];
-      
-      // Extract intensity and color
-      const maxVal = Math.max(r, g, b, 0.001);
-      const intensity = Math.min(10, maxVal); // Cap auto-intensity to avoid blowing out
-      
-      // Normalize color
-      const color = new THREE.Color(r/maxVal, g/maxVal, b/maxVal);
+      const measured = this.lightExtraction.measureLightAt(
+          { width: this.currentHdriWidth, height: this.currentHdriHeight, data: this.currentHdriData, source: this.currentHdriSource() ?? 'hdr' },
+          u, v
+      );
       
       const newLight: ManualLight = {
           id: MathUtils.generateUUID(),
-          u,
-          v,
-          color: '#' + color.getHexString(),
-          intensity: intensity,
+          u: measured.u,
+          v: measured.v,
+          color: '#' + new THREE.Color(...measured.color).getHexString(),
+          intensity: measured.intensity,
           castShadow: true
       };
       
@@ -917,6 +2061,32 @@ export class AppComponent implements AfterViewInit {
       this.selectedLightId.set(newLight.id);
   }
   
+  /** Replaces the current lights with the brightest regions of the HDRI. */
+  autoDetectLights(): void {
+      if (!this.currentHdriData) return;
+
+      const detected = this.lightExtraction.detectLights(
+          { width: this.currentHdriWidth, height: this.currentHdriHeight, data: this.currentHdriData, source: this.currentHdriSource() ?? 'hdr' },
+          { maxLights: this.autoLightCount(), thresholdEv: this.autoLightThresholdEv() }
+      );
+      if (detected.length === 0) {
+          alert('No light sources found above the threshold. Try a lower threshold.');
+          return;
+      }
+
+      this.manualLights().forEach(l => this.removeLight(l.id));
+      const newLights: ManualLight[] = detected.map(light => ({
+          id: MathUtils.generateUUID(),
+          u: light.u,
+          v: light.v,
+          color: '#' + new THREE.Color(...light.color).getHexString(),
+          intensity: light.intensity,
+          castShadow: true
+      }));
+      this.manualLights.set(newLights);
+      this.selectedLightId.set(newLights[0].id);
+  }
+  
   removeLight(id: string): void {
       const lightToRemove = this.manualLights().find(l => l.id === id);
       if (lightToRemove && lightToRemove.instance) {
@@ -952,11 +2122,11 @@ export class AppComponent implements AfterViewInit {
     this.controls.update();
 
     if (this.renderer && this.scene) {
-        // Ensure exposure is applied every frame to prevent it from getting "stuck"
+        // The pass applies exposure; the false color background reads it from here
         this.renderer.toneMappingExposure = this.exposure();
     }
 
-    this.renderer.render(this.scene, this.camera);
+    this.renderView();
   }
 
   private onWindowResize(): void {
@@ -967,11 +2137,51 @@ export class AppComponent implements AfterViewInit {
     this.renderer.setSize(width, height);
   }
 
-  private onObjectClick(event: MouseEvent): void {
+  /**
+   * Points the raycaster through the cursor and returns the index of the view pane it is over.
+   * Tiled panes are separate viewports, so the cursor is mapped into the pane's own projection.
+   */
+  private setRaycasterFromEvent(event: MouseEvent): number {
     const rect = this.renderer.domElement.getBoundingClientRect();
-    this.pointer.x = ((event.clientX - rect.left) / rect.width) * 2 - 1;
-    this.pointer.y = -((event.clientY - rect.top) / rect.height) * 2 + 1;
+    const x = (event.clientX - rect.left) / rect.width;
+    const y = 1 - (event.clientY - rect.top) / rect.height;
+    const panes = this.viewPanes();
+    const index = Math.max(0, panes.findIndex(({ scissor: s }) => x >= s.x && x < s.x + s.width && y >= s.y && y < s.y + s.height));
+    const { viewport } = panes[index];
+    this.pointer.x = (x - viewport.x) / viewport.width * 2 - 1;
+    this.pointer.y = (y - viewport.y) / viewport.height * 2 - 1;
+
+    const aspect = this.camera.aspect;
+    this.setCameraAspect(aspect * viewport.width / viewport.height);
     this.raycaster.setFromCamera(this.pointer, this.camera);
+    this.setCameraAspect(aspect);
+    return index;
+  }
+
+  private setCameraAspect(aspect: number): void {
+    this.camera.aspect = aspect;
+    this.camera.updateProjectionMatrix();
+  }
+
+  private onObjectClick(event: MouseEvent): void {
+    const onSideB = this.setRaycasterFromEvent(event) === 1 && this.isComparing();
+
+    // Neutral and light picks read the current HDRI, so they only apply to side A
+    if ((this.isPickingNeutral() || this.isPickingLight()) && onSideB) return;
+
+    // Spot metering reads the scene along the clicked ray, objects included
+    if (this.isPickingMeteringSpot()) {
+        this.meteringSpot = this.raycaster.ray.clone();
+        this.isPickingMeteringSpot.set(false);
+        this.isExposureLocked.set(false);
+        this.meterExposure();
+        return;
+    }
+
+    if (this.isPickingNeutral()) {
+        this.pickNeutral();
+        return;
+    }
 
     // Pick Light Mode Logic
     if (this.isPickingLight()) {
@@ -992,35 +2202,9 @@ export class AppComponent implements AfterViewInit {
             const lightDir = new THREE.Vector3().copy(viewDir).reflect(normal).normalize();
 
             // Undo Global Scene Rotation to get local Texture coordinates
-            const envRotation = this.rotation() * Math.PI * 2;
-            lightDir.applyAxisAngle(new THREE.Vector3(0, 1, 0), -envRotation);
+            const { u, v } = directionToEquirectUv(worldToHdri(lightDir, this.orientation()));
 
-            // Convert Vector to Spherical Coords
-            const spherical = new THREE.Spherical().setFromVector3(lightDir);
-
-            // Convert Spherical to UV
-            // Standard Equirectangular mapping:
-            // theta [-PI, PI] or [0, 2PI] depending on system. Three.js gives [-PI, PI] usually?
-            // phi [0, PI] (0 is Up, PI is Down)
-            
-            // Reversing my light setup logic:
-            // theta = (u - 0.5) * 2 * PI
-            // u - 0.5 = theta / 2PI
-            // u = (theta / (2 * PI)) + 0.5
-            let u = (spherical.theta / (2 * Math.PI)) + 0.5;
-            
-            // phi = v * PI
-            // v = phi / PI
-            let v = spherical.phi / Math.PI;
-
-            // Normalize U just in case
-            if (u < 0) u += 1;
-            if (u > 1) u -= 1;
-            
-            // Clamp V
-            v = Math.max(0.001, Math.min(0.999, v));
-
-            this.addLightAt(u, v);
+            this.addLightAt(u, Math.max(0.001, Math.min(0.999, v)));
             this.isPickingLight.set(false); // Turn off after picking
         }
         return;
@@ -1031,6 +2215,13 @@ export class AppComponent implements AfterViewInit {
     const intersects = this.raycaster.intersectObjects(this.selectableObjects);
     if (intersects.length > 0) {
         const clickedObject = intersects[0].object;
+        // Model meshes are nested; the model's root carries its id
+        let modelRoot: THREE.Object3D | null = clickedObject;
+        while (modelRoot && !modelRoot.userData['modelId']) modelRoot = modelRoot.parent;
+        if (modelRoot) {
+            this.selectModel(modelRoot.userData['modelId']);
+            return;
+        }
         const materialName = clickedObject.name as EditableMaterial;
         if (['Floor', 'Glass', 'Matte', 'Chrome', 'Plastic', 'Color Checker'].includes(materialName)) {
             this.selectedMaterial.set(materialName);
@@ -1041,27 +2232,33 @@ export class AppComponent implements AfterViewInit {
   private highlightObject(object: THREE.Object3D | null): void {
       // ... (Same implementation)
       if (this.highlightTimeoutId) { clearTimeout(this.highlightTimeoutId); this.highlightTimeoutId = null; }
+      // Keyed by material, as model meshes may share one and must not record the highlight as original
+      const emissiveMaterials = (obj: THREE.Object3D) => {
+          const materials = new Set<THREE.MeshStandardMaterial>();
+          obj.traverse((item: THREE.Object3D) => {
+              if (!(item as THREE.Mesh).isMesh) return;
+              const material = (item as THREE.Mesh).material;
+              for (const m of Array.isArray(material) ? material : [material]) {
+                  if ((m as THREE.MeshStandardMaterial).emissive) materials.add(m as THREE.MeshStandardMaterial);
+              }
+          });
+          return [...materials];
+      };
       const unhighlight = (obj: THREE.Object3D) => {
-          const objectsToRevert = obj.type === 'Group' ? obj.children : [obj];
-          for (const item of objectsToRevert) {
-              const material = (item as any).material;
-              const originalColor = this.originalEmissiveColors.get(item.uuid);
-              if (material && originalColor) material.emissive.copy(originalColor);
-              this.originalEmissiveColors.delete(item.uuid);
+          for (const material of emissiveMaterials(obj)) {
+              const originalColor = this.originalEmissiveColors.get(material.uuid);
+              if (originalColor) material.emissive.copy(originalColor);
+              this.originalEmissiveColors.delete(material.uuid);
           }
       };
       if (this.selectedObjectForEditing) unhighlight(this.selectedObjectForEditing);
       this.selectedObjectForEditing = object;
       if (!this.selectedObjectForEditing) return;
       const highlight = (obj: THREE.Object3D) => {
-          const objectsToHighlight = obj.type === 'Group' ? obj.children : [obj];
           const highlightColor = new THREE.Color(this.theme() === 'dark' ? '#0ea5e9' : '#0284c7');
-          for (const item of objectsToHighlight) {
-              const material = (item as any).material;
-              if (material) {
-                  this.originalEmissiveColors.set(item.uuid, material.emissive.clone());
-                  material.emissive.copy(highlightColor);
-              }
+          for (const material of emissiveMaterials(obj)) {
+              this.originalEmissiveColors.set(material.uuid, material.emissive.clone());
+              material.emissive.copy(highlightColor);
           }
       };
       highlight(this.selectedObjectForEditing);
@@ -1084,17 +2281,56 @@ export class AppComponent implements AfterViewInit {
   }
 
   renderScene(): void {
-    this.renderer.render(this.scene, this.camera);
+    this.renderView();
     const dataUrl = this.renderer.domElement.toDataURL('image/png');
     const link = document.createElement('a');
     link.href = dataUrl;
-    const hdriName = this.selectedHdriName()?.replace(/\.(hdr|pic)$/i, '') || 'scene';
+    const hdriName = this.selectedHdriName()?.replace(/\.[^.]+$/, '') || 'scene';
     link.download = `${hdriName}-render.png`;
     document.body.appendChild(link);
     link.click();
     document.body.removeChild(link);
   }
 
+  /**
+   * Writes the current HDRI with the viewer's rotation, levelling, white balance and exposure baked in,
+   * so the file handed over matches what was approved in SHV.
+   */
+  async exportHdri(): Promise<void> {
+    if (!this.currentHdriData) return;
+    this.isLoading.set(true);
+    this.loadingMessage.set('Exporting HDRI...');
+    // Let the overlay render before the blocking resample/encode
+    await new Promise(resolve => setTimeout(resolve, 50));
+    try {
+        const widths: Record<HdriExportSize, number | undefined> = { original: undefined, '1k': 1024, '2k': 2048, '4k': 4096, '8k': 8192 };
+        const baked = this.equirectTransform.bake(
+            { width: this.currentHdriWidth, height: this.currentHdriHeight, data: this.currentHdriData, source: this.currentHdriSource() ?? 'hdr' },
+            { rotation: this.rotation(), pitch: this.pitch(), roll: this.roll(), exposure: this.exposure(), colorMatrix: this.whiteBalanceMatrix(), width: widths[this.exportSize()] }
+        );
+
+        const format = this.exportFormat();
+        const blob = format === 'hdr'
+            ? this.hdriEncoder.encodeRadiance(baked)
+            : this.hdriEncoder.encodeExr(baked, format === 'exr-half' ? 'half' : 'float');
+
+        const hdriName = this.selectedHdriName()?.replace(/\.[^.]+$/, '') || 'environment';
+        const url = URL.createObjectURL(blob);
+        const a = document.createElement('a');
+        a.href = url;
+        a.download = `${hdriName}-export.${format === 'hdr' ? 'hdr' : 'exr'}`;
+        document.body.appendChild(a);
+        a.click();
+        document.body.removeChild(a);
+        URL.revokeObjectURL(url);
+    } catch (error) {
+        console.error('Failed to export HDRI:', error);
+        alert('Failed to export HDRI.');
+    } finally {
+        this.isLoading.set(false);
+    }
+  }
+
   onDragOver(event: DragEvent) { event.preventDefault(); event.stopPropagation(); }
   onDrop(event: DragEvent) {
     event.preventDefault(); event.stopPropagation();
@@ -1110,24 +2346,78 @@ export class AppComponent implements AfterViewInit {
 
   private handleFiles(files: FileList): void {
     const newHdris: HDRI[] = [];
+    const modelFiles: File[] = [];
     for (let i = 0; i < files.length; i++) {
         const file = files[i];
-        if (file && (file.name.endsWith('.hdr') || file.name.endsWith('.pic'))) {
+        if (file && this.hdriDecoder.isSupportedFile(file.name)) {
             const url = URL.createObjectURL(file);
             newHdris.push({ name: file.name, url, file, lights: [] });
+        } else if (file && this.modelImport.isSupportedFile(file.name)) {
+            modelFiles.push(file);
         }
     }
+    this.addHdris(newHdris);
+    if (modelFiles.length > 0) this.importModels(modelFiles);
+  }
+
+  private addHdris(newHdris: HDRI[]): void {
     if (newHdris.length > 0) {
       this.hdriList.update(currentList => {
         const newNames = new Set(newHdris.map(h => h.name));
         const filteredList = currentList.filter(h => !newNames.has(h.name));
         return [...filteredList, ...newHdris];
       });
+      // A replaced file needs a fresh quality check
+      this.hdriQualityReports.update(reports => Object.fromEntries(Object.entries(reports).filter(([name]) => !newHdris.some(h => h.name === name))));
       // Switch to the first new HDRI
       this.switchHdri(newHdris[0].name);
     }
   }
 
+  onCubemapUpload(event: Event): void {
+    const input = event.target as HTMLInputElement;
+    if (!input.files || input.files.length === 0) return;
+    this.importCubemap(Array.from(input.files));
+    input.value = '';
+  }
+
+  /**
+   * Converts a cubemap (six faces or a single cross/strip image) to an equirect .hdr
+   * so it goes through the same loading, light editing and saving path as any other HDRI.
+   */
+  private async importCubemap(files: File[]): Promise<void> {
+    this.isLoading.set(true);
+    this.loadingMessage.set('Converting cubemap to equirectangular...');
+    try {
+        const supported = files.filter(f => this.hdriDecoder.isSupportedFile(f.name));
+        const layout = this.cubemapLayout();
+        let equirect: DecodedHdri;
+
+        if (layout === 'six-files' || (layout === 'auto' && supported.length > 1)) {
+            if (supported.length !== 6) throw new Error(`Expected 6 face images, got ${supported.length}.`);
+            const ordered = this.cubemapConverter.orderFaceFiles(supported);
+            const faces = await Promise.all(ordered.map(async f => (await this.hdriDecoder.decode(f, f.name)).hdri));
+            equirect = this.cubemapConverter.fromFaces(faces);
+        } else {
+            if (supported.length === 0) throw new Error('Unsupported file type.');
+            const { hdri: image } = await this.hdriDecoder.decode(supported[0], supported[0].name);
+            const resolvedLayout = layout === 'auto' ? this.cubemapConverter.detectLayout(image.width, image.height) : layout;
+            if (!resolvedLayout) throw new Error(`Could not detect a cube layout for a ${image.width}x${image.height} image. Please choose one.`);
+            equirect = this.cubemapConverter.fromSingleImage(image, resolvedLayout);
+        }
+
+        const baseName = supported[0].name.replace(/\.[^.]+$/, '').replace(/[_-]?(px|posx|pos_x|right|rt)$/i, '');
+        const name = `${baseName}_equirect.hdr`;
+        const file = new File([this.hdriEncoder.encodeRadiance(equirect)], name, { type: 'image/vnd.radiance' });
+        this.isLoading.set(false);
+        this.addHdris([{ name, url: URL.createObjectURL(file), file, lights: [] }]);
+    } catch (error: any) {
+        console.error('Failed to import cubemap:', error);
+        this.loadingMessage.set(`Error: ${error?.message || 'Could not import cubemap.'}`);
+        setTimeout(() => this.isLoading.set(false), 3000);
+    }
+  }
+
   // --- Logic to switch HDRI and Lights ---
   switchHdri(newHdriName: string): void {
       const currentName = this.selectedHdriName();
@@ -1172,6 +2462,7 @@ export class AppComponent implements AfterViewInit {
     this.spheresVisible.set(shouldShow);
     this.colorCheckerVisible.set(shouldShow);
     this.groundVisible.set(shouldShow);
+    this.modelsVisible.set(shouldShow);
     this.currentPreset.set('Custom');
   }
 
@@ -1192,6 +2483,11 @@ export class AppComponent implements AfterViewInit {
         this.customPresetName.set(null);
         this.loadedPresetData.set(null);
     }
+    this.applyPresetMaterials(preset);
+  }
+
+  /** Sets the materials & visibility of a built-in preset without touching the preset selection. */
+  private applyPresetMaterials(preset: Preset): void {
     switch(preset) {
         case 'SHV': this.applyShvPreset(); break;
         case 'Polyhaven': this.applyPolyhavenPreset(); break;
@@ -1248,10 +2544,14 @@ export class AppComponent implements AfterViewInit {
 
   // --- Restored Missing Methods ---
 
-  updateColorCheckerColor(row: number, col: number, color: string): void {
+  /** Takes a hex value in the output color space; Display P3 values are kept as CSS `color(display-p3 …)`. */
+  updateColorCheckerColor(row: number, col: number, hex: string): void {
     const patch = this.colorCheckerPatches[row]?.[col];
     if (patch) {
-        (patch.material as THREE.MeshStandardMaterial).color.set(color);
+        const color = this.outputColorSpace() === 'Display P3'
+            ? `color(display-p3 ${[1, 3, 5].map(i => +(parseInt(hex.slice(i, i + 2), 16) / 255).toFixed(4)).join(' ')})`
+            : hex;
+        (patch.material as THREE.MeshStandardMaterial).color.copy(this.parseColorCheckerColor(color));
         this.colorCheckerColors.update(colors => {
             colors[row][col] = color;
             return [...colors.map(r => [...r])]; 
@@ -1260,6 +2560,12 @@ export class AppComponent implements AfterViewInit {
     }
   }
 
+  /** Color checker colors are sRGB hex or, when edited in Display P3, CSS `color(display-p3 r g b)`. */
+  private parseColorCheckerColor(css: string): THREE.Color {
+    const p3 = /^color\(display-p3 ([\d.]+) ([\d.]+) ([\d.]+)\)$/.exec(css);
+    return p3 ? new THREE.Color().setRGB(+p3[1], +p3[2], +p3[3], THREE.DisplayP3ColorSpace) : new THREE.Color(css);
+  }
+
   async loadDemoScene(): Promise<void> {
     this.isLoading.set(true);
     this.loadingMessage.set('Loading Demo Scene...');
@@ -1275,16 +2581,26 @@ export class AppComponent implements AfterViewInit {
       this.hdriList().forEach(hdri => URL.revokeObjectURL(hdri.url));
       
       this.hdriList.set([demoHdri]);
+      this.hdriQualityReports.set({});
       this.currentPreset.set('SHV'); 
       this.applyShvPreset(); 
       this.rotation.set(0);
+      this.pitch.set(0);
+      this.roll.set(0);
       this.exposure.set(1);
+      this.isAutoExposure.set(false);
       this.blur.set(0);
       this.toneMapping.set('Reinhard');
       this.colorSpace.set('ACES Filmic');
+      this.viewLook.set('None');
+      this.viewChannel.set('RGB');
+      this.selectedLutName.set(null);
+      this.lutIntensity.set(1);
       this.spheresVisible.set(true);
       this.groundVisible.set(true);
       this.colorCheckerVisible.set(true);
+      this.modelsVisible.set(true);
+      this.clearModels();
       
       // Clear all existing lights properly
       this.manualLights().forEach(l => {
@@ -1296,6 +2612,7 @@ export class AppComponent implements AfterViewInit {
       });
       this.manualLights.set([]); // Reset lights for demo
       
+      this.clearCompareLights();
       // Clean generic scene lights if any leftover (safety)
       this.scene.children.filter(c => c instanceof THREE.DirectionalLight).forEach(l => {
           this.scene.remove(l);
@@ -1319,6 +2636,146 @@ export class AppComponent implements AfterViewInit {
     }
   }
 
+  /**
+   * Restores a saved tone mapping after the color space. The former 'Grayscale' option becomes Reinhard,
+   * with the Luminance channel view only under Linear sRGB, the one pipeline that drew it gray.
+   */
+  private setSavedToneMapping(value: SavedToneMappingOption): void {
+    if (value === 'Grayscale') {
+      this.toneMapping.set('Reinhard');
+      if (this.colorSpace() === 'Linear sRGB') this.viewChannel.set('Luminance');
+    } else {
+      this.toneMapping.set(value);
+    }
+  }
+
+  async onLutUpload(event: Event): Promise<void> {
+    const input = event.target as HTMLInputElement;
+    if (!input.files || input.files.length === 0) return;
+    const files = Array.from(input.files);
+    input.value = '';
+    for (const file of files) {
+        try {
+            this.addLut(file.name, await file.text());
+        } catch (error: any) {
+            console.error('Failed to load LUT:', error);
+            alert(`Failed to load ${file.name}: ${error?.message ?? 'invalid .cube file'}`);
+        }
+    }
+  }
+
+  /** Parses a .cube file, adds it to the list (replacing one with the same name) and selects it. */
+  private addLut(name: string, text: string): void {
+    const lut = parseCubeLut(text, name.replace(/\.cube$/i, ''));
+    this.luts.update(list => [...list.filter(l => l.name !== name), { name, text, lut }]);
+    this.selectedLutName.set(name);
+  }
+
+  /** Drops a loaded LUT, so it is no longer applied or saved with the project. */
+  removeLut(name: string): void {
+    this.luts.update(list => list.filter(l => l.name !== name));
+    if (this.selectedLutName() === name) this.selectedLutName.set(null);
+  }
+
+  onModelUpload(event: Event): void {
+    const input = event.target as HTMLInputElement;
+    if (!input.files || input.files.length === 0) return;
+    this.importModels(Array.from(input.files));
+    input.value = '';
+  }
+
+  private async importModels(files: File[]): Promise<void> {
+    this.isLoading.set(true);
+    this.loadingMessage.set('Loading model...');
+    for (const file of files) {
+        try {
+            await this.addModel(file);
+        } catch (error: any) {
+            console.error('Failed to load model:', error);
+            alert(`Failed to load ${file.name}: ${error?.message ?? 'unsupported model file'}`);
+        }
+    }
+    this.isLoading.set(false);
+  }
+
+  /** Loads a model onto the floor, makes it selectable and applies saved material settings by material order. */
+  private async addModel(file: File, savedMaterials: ModelMaterial[] = []): Promise<void> {
+    const object = await this.modelImport.load(file, this.modelSize);
+    const id = `model-${this.nextModelId++}`;
+    object.userData['modelId'] = id;
+    object.visible = this.modelsVisible();
+
+    const materials = this.modelImport.getMaterials(object).map((material, i) => {
+        const saved = savedMaterials[i];
+        if (saved) {
+            material.color.set(saved.color);
+            material.roughness = saved.roughness;
+            material.metalness = saved.metalness;
+        }
+        return { name: material.name || `Material ${i + 1}`, color: `#${material.color.getHexString()}`, roughness: material.roughness, metalness: material.metalness };
+    });
+
+    this.scene.add(object);
+    this.selectableObjects.push(object);
+    this.models.update(list => [...list, { id, name: file.name, file, object, materials }]);
+    this.layoutModels();
+  }
+
+  removeModel(id: string): void {
+    const model = this.models().find(m => m.id === id);
+    if (!model) return;
+    if (this.selectedObjectForEditing === model.object) this.highlightObject(null);
+    this.scene.remove(model.object);
+    this.selectableObjects = this.selectableObjects.filter(o => o !== model.object);
+    this.modelImport.dispose(model.object);
+    this.models.update(list => list.filter(m => m.id !== id));
+    if (this.selectedModelId() === id) {
+        this.selectedModelId.set(null);
+        if (this.selectedMaterial() === 'Model') this.selectedMaterial.set('Floor');
+    }
+    this.layoutModels();
+  }
+
+  private clearModels(): void {
+    this.models().forEach(m => this.removeModel(m.id));
+  }
+
+  /** Spaces the models evenly in a row in front of the spheres. */
+  private layoutModels(): void {
+    const models = this.models();
+    models.forEach((model, i) => {
+        model.object.position.set((i - (models.length - 1) / 2) * this.modelSpacing, 0, this.modelRowZ);
+    });
+  }
+
+  /** Material editor selection: a built-in object, or `model:<id>` for an imported model. */
+  selectEditableObject(value: string): void {
+    if (value.startsWith('model:')) {
+        this.selectModel(value.slice('model:'.length));
+    } else {
+        this.selectedMaterial.set(value as EditableMaterial);
+    }
+  }
+
+  private selectModel(id: string): void {
+    if (this.selectedModelId() !== id) this.selectedModelMaterialIndex.set(0);
+    this.selectedModelId.set(id);
+    this.selectedMaterial.set('Model');
+  }
+
+  updateModelMaterial(changes: Partial<Omit<ModelMaterial, 'name'>>): void {
+    const model = this.selectedModel();
+    if (!model) return;
+    const index = this.selectedModelMaterialIndex();
+    const material = this.modelImport.getMaterials(model.object)[index];
+    if (!material) return;
+    if (changes.color !== undefined) material.color.set(changes.color);
+    if (changes.roughness !== undefined) material.roughness = changes.roughness;
+    if (changes.metalness !== undefined) material.metalness = changes.metalness;
+    const materials = model.materials.map((m, i) => i === index ? { ...m, ...changes } : m);
+    this.models.update(list => list.map(m => m.id === model.id ? { ...m, materials } : m));
+  }
+
   onFloorTextureUpload(event: Event): void {
     const input = event.target as HTMLInputElement;
     if (!input.files || input.files.length === 0) return;
@@ -1362,8 +2819,23 @@ export class AppComponent implements AfterViewInit {
   resetPlasticRoughnessTexture(): void { this.removeRoughnessTexture(3, this.plasticRoughnessTextureFile); }
 
   async savePreset(): Promise<void> {
-    const presetData: CustomPresetData = {
-        version: '1.0',
+    const jsonString = JSON.stringify(this.getPresetData(), null, 2);
+    const blob = new Blob([jsonString], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = 'custom-preset.shvpreset';
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  }
+
+  /** Current materials, visibility and color checker, as saved in a .shvpreset file. */
+  private getPresetData(): CustomPresetData {
+    const lut = this.selectedLut();
+    return {
+        version: '1.1',
         materials: {
             glass: { color: this.glassColor(), roughness: this.glassRoughness(), ior: this.glassIor(), transmission: this.glassTransmission() },
             matte: { color: this.matteColor(), roughness: this.matteRoughness(), metalness: this.matteMetalness() },
@@ -1377,18 +2849,47 @@ export class AppComponent implements AfterViewInit {
         },
         colorChecker: {
             colors: this.colorCheckerColors(),
+        },
+        view: {
+            colorSpace: this.colorSpace(),
+            toneMapping: this.toneMapping(),
+            look: this.viewLook(),
+            channel: this.viewChannel(),
+            lut: lut ? { name: lut.name, data: lut.text, intensity: this.lutIntensity() } : undefined,
         }
     };
-    const jsonString = JSON.stringify(presetData, null, 2);
-    const blob = new Blob([jsonString], { type: 'application/json' });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = 'custom-preset.shvpreset';
-    document.body.appendChild(a);
-    a.click();
-    document.body.removeChild(a);
-    URL.revokeObjectURL(url);
+  }
+
+  private applyPresetData(data: CustomPresetData): void {
+    this.glassColor.set(data.materials.glass.color); this.glassRoughness.set(data.materials.glass.roughness); this.glassIor.set(data.materials.glass.ior); this.glassTransmission.set(data.materials.glass.transmission);
+    this.matteColor.set(data.materials.matte.color); this.matteRoughness.set(data.materials.matte.roughness); this.matteMetalness.set(data.materials.matte.metalness);
+    this.chromeColor.set(data.materials.chrome.color); this.chromeRoughness.set(data.materials.chrome.roughness); this.chromeMetalness.set(data.materials.chrome.metalness);
+    this.plasticColor.set(data.materials.plastic.color); this.plasticRoughness.set(data.materials.plastic.roughness); this.plasticMetalness.set(data.materials.plastic.metalness);
+    this.spheresVisible.set(data.visibility.spheres); this.colorCheckerVisible.set(data.visibility.colorChecker); this.groundVisible.set(data.visibility.ground);
+    if (data.colorChecker && data.colorChecker.colors) {
+        this.colorCheckerColors.set(data.colorChecker.colors);
+        for (let row = 0; row < data.colorChecker.colors.length; row++) {
+            for (let col = 0; col < data.colorChecker.colors[row].length; col++) {
+                const patch = this.colorCheckerPatches[row]?.[col];
+                if (patch) (patch.material as THREE.MeshStandardMaterial).color.copy(this.parseColorCheckerColor(data.colorChecker.colors[row][col]));
+            }
+        }
+    }
+    // V1.0 presets leave the color pipeline as it is
+    if (data.view) {
+        this.colorSpace.set(data.view.colorSpace);
+        this.setSavedToneMapping(data.view.toneMapping);
+        this.viewLook.set(data.view.look);
+        if (data.view.channel) this.viewChannel.set(data.view.channel);
+        const lut = data.view.lut;
+        if (lut) {
+            if (this.luts().find(l => l.name === lut.name)?.text !== lut.data) this.addLut(lut.name, lut.data);
+            this.selectedLutName.set(lut.name);
+            this.lutIntensity.set(lut.intensity);
+        } else {
+            this.selectedLutName.set(null);
+        }
+    }
   }
   
   onPresetLoad(event: Event): void {
@@ -1400,21 +2901,8 @@ export class AppComponent implements AfterViewInit {
         try {
             const result = e.target?.result as string;
             const data: CustomPresetData = JSON.parse(result);
-            if (data.version !== '1.0' || !data.materials || !data.visibility) throw new Error('Invalid preset file format.');
-            this.glassColor.set(data.materials.glass.color); this.glassRoughness.set(data.materials.glass.roughness); this.glassIor.set(data.materials.glass.ior); this.glassTransmission.set(data.materials.glass.transmission);
-            this.matteColor.set(data.materials.matte.color); this.matteRoughness.set(data.materials.matte.roughness); this.matteMetalness.set(data.materials.matte.metalness);
-            this.chromeColor.set(data.materials.chrome.color); this.chromeRoughness.set(data.materials.chrome.roughness); this.chromeMetalness.set(data.materials.chrome.metalness);
-            this.plasticColor.set(data.materials.plastic.color); this.plasticRoughness.set(data.materials.plastic.roughness); this.plasticMetalness.set(data.materials.plastic.metalness);
-            this.spheresVisible.set(data.visibility.spheres); this.colorCheckerVisible.set(data.visibility.colorChecker); this.groundVisible.set(data.visibility.ground);
-            if (data.colorChecker && data.colorChecker.colors) {
-                this.colorCheckerColors.set(data.colorChecker.colors);
-                for (let row = 0; row < data.colorChecker.colors.length; row++) {
-                    for (let col = 0; col < data.colorChecker.colors[row].length; col++) {
-                        const patch = this.colorCheckerPatches[row]?.[col];
-                        if (patch) (patch.material as THREE.MeshStandardMaterial).color.set(data.colorChecker.colors[row][col]);
-                    }
-                }
-            }
+            if ((data.version !== '1.0' && data.version !== '1.1') || !data.materials || !data.visibility) throw new Error('Invalid preset file format.');
+            this.applyPresetData(data);
             this.currentPreset.set('Custom');
             this.customPresetName.set(file.name.replace(/\.shvpreset$/i, ''));
             this.loadedPresetData.set(data); // Store for saving in project
@@ -1534,23 +3022,8 @@ export class AppComponent implements AfterViewInit {
       }
 
       try {
-          let blob: Blob;
-          // Check for V1.7 Envelope Encryption
-          if (textureData.encrypted && textureData.iv && textureData.wrappedKey && textureData.keyIv) {
-             blob = await this.cryptoService.decryptBlobEnvelope(
-                 textureData.data, 
-                 textureData.iv, 
-                 textureData.wrappedKey, 
-                 textureData.keyIv, 
-                 'image/png' // Assuming standard image type
-             );
-          } else if (textureData.encrypted) {
-              console.warn('Legacy V1.6 texture encryption not supported for automatic loading.');
-              return;
-          } else {
-              // Legacy Base64
-              blob = this.base64ToBlob(textureData.data);
-          }
+          const blob = await this.decodeTextureData(textureData, 'image/png'); // Assuming standard image type
+          if (!blob) return;
           
           const file = new File([blob], textureData.name, { type: blob.type || 'image/png' });
           
@@ -1565,6 +3038,53 @@ export class AppComponent implements AfterViewInit {
       }
   }
 
+  /** Restores the project's LUTs and selection; clears them for projects without any. */
+  private async loadProjectLuts(project: ProjectDataV1_10 | ProjectDataV1_11 | ProjectDataV1_12 | ProjectDataV1_13 | null): Promise<void> {
+      const luts: LoadedLut[] = [];
+      for (const lutData of project?.luts ?? []) {
+          try {
+              const blob = await this.decodeTextureData(lutData, 'text/plain');
+              if (!blob) continue;
+              const text = await blob.text();
+              luts.push({ name: lutData.name, text, lut: parseCubeLut(text, lutData.name.replace(/\.cube$/i, '')) });
+          } catch (error) {
+              console.error(`Failed to load LUT ${lutData.name}:`, error);
+          }
+      }
+      this.luts.set(luts);
+      const selected = project?.settings.lut;
+      this.selectedLutName.set(luts.some(l => l.name === selected?.name) ? selected!.name : null);
+      this.lutIntensity.set(selected?.intensity ?? 1);
+  }
+
+  /** Restores the project's models with their material settings; clears them for projects without any. */
+  private async loadProjectModels(project: ProjectDataV1_13 | null): Promise<void> {
+      this.clearModels();
+      this.modelsVisible.set(project?.settings.modelsVisible ?? true);
+      for (const modelData of project?.models ?? []) {
+          try {
+              const blob = await this.decodeTextureData(modelData, this.modelImport.getMimeType(modelData.name));
+              if (!blob) continue;
+              await this.addModel(new File([blob], modelData.name), modelData.materials);
+          } catch (error) {
+              console.error(`Failed to load model ${modelData.name}:`, error);
+          }
+      }
+  }
+
+  /** Decrypts (V1.7 envelope) or decodes (legacy base64) a stored asset; null for unsupported V1.6 encryption. */
+  private async decodeTextureData(textureData: TextureData, mimeType: string): Promise<Blob | null> {
+      // Check for V1.7 Envelope Encryption
+      if (textureData.encrypted && textureData.iv && textureData.wrappedKey && textureData.keyIv) {
+          return this.cryptoService.decryptBlobEnvelope(textureData.data, textureData.iv, textureData.wrappedKey, textureData.keyIv, mimeType);
+      } else if (textureData.encrypted) {
+          console.warn('Legacy V1.6 texture encryption not supported for automatic loading.');
+          return null;
+      }
+      // Legacy Base64
+      return this.base64ToBlob(textureData.data);
+  }
+
   async saveProject(): Promise<void> {
     this.isLoading.set(true);
     this.loadingMessage.set('Saving secure project (V1.7)...');
@@ -1616,11 +3136,15 @@ export class AppComponent implements AfterViewInit {
             this.chromeRoughnessTextureFile() ? this.fileToEncryptedData(this.chromeRoughnessTextureFile()!) : Promise.resolve(null),
             this.plasticRoughnessTextureFile() ? this.fileToEncryptedData(this.plasticRoughnessTextureFile()!) : Promise.resolve(null)
         ]);
+        const luts = await Promise.all(this.luts().map(l => this.fileToEncryptedData(new File([l.text], l.name, { type: 'text/plain' }))));
+        const models = await Promise.all(this.models().map(async m => ({ ...await this.fileToEncryptedData(m.file), materials: m.materials })));
 
-        const project: ProjectDataV1_7 = {
-            version: '1.7',
+        const project: ProjectDataV1_13 = {
+            version: '1.13',
             settings: {
                 rotation: this.rotation(),
+                pitch: this.pitch(),
+                roll: this.roll(),
                 exposure: this.exposure(),
                 blur: this.blur(),
                 selectedHdriName: this.selectedHdriName(),
@@ -1628,7 +3152,13 @@ export class AppComponent implements AfterViewInit {
                 spheresVisible: this.spheresVisible(),
                 groundVisible: this.groundVisible(),
                 colorCheckerVisible: this.colorCheckerVisible(),
-                colorSpace: this.colorSpace()
+                colorSpace: this.colorSpace(),
+                viewLook: this.viewLook(),
+                lut: { name: this.selectedLutName(), intensity: this.lutIntensity() },
+                viewChannel: this.viewChannel(),
+                exposureMode: this.exposureMode(),
+                camera: this.cameraExposure(),
+                modelsVisible: this.modelsVisible()
             },
             materials: {
                 floor: { tiling: this.floorTiling(), texture: floorTexture },
@@ -1639,6 +3169,8 @@ export class AppComponent implements AfterViewInit {
                 colorChecker: { colors: this.colorCheckerColors().flat() }
             },
             hdris: resolvedHdriData as any[], // Cast to allow encrypted properties
+            luts,
+            models,
             loadedPreset: this.loadedPresetData() ? {
                 name: this.customPresetName() || 'Custom',
                 data: this.loadedPresetData()!
@@ -1691,6 +3223,7 @@ export class AppComponent implements AfterViewInit {
                 }
             });
             this.manualLights.set([]); 
+            this.clearCompareLights();
             this.scene.children.filter(c => c instanceof THREE.DirectionalLight).forEach(l => {
                 this.scene.remove(l);
                 (l as THREE.DirectionalLight).dispose();
@@ -1704,7 +3237,7 @@ export class AppComponent implements AfterViewInit {
                 // Check if encrypted (V1.7)
                 if ('encrypted' in hdriData && hdriData.encrypted && 'iv' in hdriData && 'wrappedKey' in hdriData && 'keyIv' in hdriData) {
                     try {
-                        blob = await this.cryptoService.decryptBlobEnvelope(hdriData.data, hdriData.iv, hdriData.wrappedKey, hdriData.keyIv, 'image/vnd.radiance');
+                        blob = await this.cryptoService.decryptBlobEnvelope(hdriData.data, hdriData.iv, hdriData.wrappedKey, hdriData.keyIv, this.hdriDecoder.getMimeType(hdriData.name));
                     } catch (err) {
                         console.error("Decryption failed for HDRI", hdriData.name);
                         alert(`Could not decrypt HDRI: ${hdriData.name}. The project key may not match or file is corrupted.`);
@@ -1722,7 +3255,7 @@ export class AppComponent implements AfterViewInit {
                 
                 // Load lights based on version
                 let lights: ManualLight[] = [];
-                if (['1.5', '1.6', '1.7'].includes(project.version)) {
+                if (['1.5', '1.6', '1.7', '1.8', '1.9', '1.10', '1.11', '1.12', '1.13'].includes(project.version)) {
                     const pHdri = hdriData as { lights: ManualLight[] };
                     if (pHdri.lights) {
                          lights = pHdri.lights.map(l => ({
@@ -1736,10 +3269,11 @@ export class AppComponent implements AfterViewInit {
             }
 
             this.hdriList.set(loadedHdris);
+            this.hdriQualityReports.set({});
             
             // --- NEW: Load Custom Preset Data if V1.7 ---
-            if (project.version === '1.7' && (project as ProjectDataV1_7).loadedPreset) {
-                const p = (project as ProjectDataV1_7).loadedPreset!;
+            if (['1.7', '1.8', '1.9', '1.10', '1.11', '1.12', '1.13'].includes(project.version) && (project as ProjectDataV1_7 | ProjectDataV1_8 | ProjectDataV1_9 | ProjectDataV1_10 | ProjectDataV1_11 | ProjectDataV1_12 | ProjectDataV1_13).loadedPreset) {
+                const p = (project as ProjectDataV1_7 | ProjectDataV1_8 | ProjectDataV1_9 | ProjectDataV1_10 | ProjectDataV1_11 | ProjectDataV1_12 | ProjectDataV1_13).loadedPreset!;
                 this.loadedPresetData.set(p.data);
                 this.customPresetName.set(p.name);
                 this.currentPreset.set('Custom');
@@ -1749,26 +3283,52 @@ export class AppComponent implements AfterViewInit {
             
             const settings = project.settings;
             this.rotation.set(settings.rotation);
+            // Projects before V1.8 have no levelling
+            const levelled = ['1.8', '1.9', '1.10', '1.11', '1.12', '1.13'].includes(project.version);
+            this.pitch.set(levelled ? (settings as ProjectDataV1_8['settings']).pitch ?? 0 : 0);
+            this.roll.set(levelled ? (settings as ProjectDataV1_8['settings']).roll ?? 0 : 0);
             this.exposure.set(settings.exposure);
+            this.isAutoExposure.set(false);
+            // Projects before V1.12 only have the multiplier
+            if (project.version === '1.12' || project.version === '1.13') {
+                this.exposureMode.set(['Multiplier', 'EV100', 'Camera'].includes(project.settings.exposureMode) ? project.settings.exposureMode : 'Multiplier');
+                this.cameraExposure.set(project.settings.camera);
+            } else {
+                this.exposureMode.set('Multiplier');
+            }
             this.blur.set(settings.blur);
             
             if ('colorSpace' in settings && (settings as any).colorSpace) {
                 const loadedColorSpace = (settings as any).colorSpace;
-                this.colorSpace.set(loadedColorSpace === 'ACEScg' || loadedColorSpace === 'ACES Filmic' ? 'ACES Filmic' : 'Linear sRGB');
+                if (loadedColorSpace === 'ACEScg') {
+                    this.colorSpace.set('ACES Filmic');
+                } else {
+                    this.colorSpace.set(['ACES Filmic', 'AgX', 'Khronos PBR Neutral'].includes(loadedColorSpace) ? loadedColorSpace : 'Linear sRGB');
+                }
             } else {
                 this.colorSpace.set((settings as any).toneMapping === 'ACES Filmic' ? 'ACES Filmic' : 'ACES Filmic');
             }
+            // Projects before V1.11 have no channel view, but may use the former Grayscale tone mapping
+            const viewChannel = ['1.11', '1.12', '1.13'].includes(project.version) ? (settings as ProjectDataV1_11['settings']).viewChannel : 'RGB';
+            this.viewChannel.set(VIEW_CHANNELS.includes(viewChannel) ? viewChannel : 'RGB');
             if (settings.toneMapping && (settings as any).toneMapping !== 'ACES Filmic') {
                  if ((settings.toneMapping as any) === 'Linear' || (settings.toneMapping as any) === 'None (sRGB)') {
                     this.toneMapping.set('None');
                 } else if (['Reinhard', 'Cineon', 'None', 'Grayscale'].includes(settings.toneMapping)) {
-                    this.toneMapping.set(settings.toneMapping as any);
+                    this.setSavedToneMapping(settings.toneMapping);
                 } else {
                     this.toneMapping.set('Reinhard');
                 }
             } else {
                 this.toneMapping.set('Reinhard');
             }
+            // Projects before V1.9 have no looks
+            const viewLook = ['1.9', '1.10', '1.11', '1.12', '1.13'].includes(project.version) ? (settings as ProjectDataV1_9['settings']).viewLook : 'None';
+            this.viewLook.set(VIEW_LOOKS.includes(viewLook) ? viewLook : 'None');
+            // Projects before V1.10 have no LUTs
+            await this.loadProjectLuts(['1.10', '1.11', '1.12', '1.13'].includes(project.version) ? project as ProjectDataV1_10 | ProjectDataV1_11 | ProjectDataV1_12 | ProjectDataV1_13 : null);
+            // Projects before V1.13 have no models
+            await this.loadProjectModels(project.version === '1.13' ? project : null);
 
             // Restore Global lights for legacy V1.4
             if (project.version === '1.4' && settings.selectedHdriName) {
@@ -1782,7 +3342,7 @@ export class AppComponent implements AfterViewInit {
                     return h;
                 }));
                 this.manualLights.set(restoredLights);
-            } else if (['1.5', '1.6', '1.7'].includes(project.version) && settings.selectedHdriName) {
+            } else if (['1.5', '1.6', '1.7', '1.8', '1.9', '1.10', '1.11', '1.12', '1.13'].includes(project.version) && settings.selectedHdriName) {
                 const selected = loadedHdris.find(h => h.name === settings.selectedHdriName);
                 if (selected) {
                     this.manualLights.set(selected.lights);
@@ -1790,7 +3350,7 @@ export class AppComponent implements AfterViewInit {
             }
             
             // Common Settings & Materials for >= 1.1
-            if (['1.1', '1.2', '1.3', '1.4', '1.5', '1.6', '1.7'].includes(project.version)) {
+            if (['1.1', '1.2', '1.3', '1.4', '1.5', '1.6', '1.7', '1.8', '1.9', '1.10', '1.11', '1.12', '1.13'].includes(project.version)) {
                 this.spheresVisible.set(project.settings.spheresVisible);
                 this.groundVisible.set(project.settings.groundVisible);
                 this.colorCheckerVisible.set(project.settings.colorCheckerVisible);
@@ -1819,7 +3379,7 @@ export class AppComponent implements AfterViewInit {
                 this.plasticMetalness.set(materials.plastic.metalness);
                 
                 // V1.2+ textures
-                if (['1.2', '1.3', '1.4', '1.5', '1.6', '1.7'].includes(project.version)) {
+                if (['1.2', '1.3', '1.4', '1.5', '1.6', '1.7', '1.8', '1.9', '1.10', '1.11', '1.12', '1.13'].includes(project.version)) {
                     await this.loadTextureData(materials.glass.roughnessTexture, 0, this.glassRoughnessTextureFile);
                     await this.loadTextureData(materials.matte.roughnessTexture, 1, this.matteRoughnessTextureFile);
                     await this.loadTextureData(materials.plastic.roughnessTexture, 3, this.plasticRoughnessTextureFile);
@@ -1831,7 +3391,7 @@ export class AppComponent implements AfterViewInit {
             }
 
             // V1.3+ Color checker
-             if (['1.3', '1.4', '1.5', '1.6', '1.7'].includes(project.version) && (project as any).materials.colorChecker) {
+             if (['1.3', '1.4', '1.5', '1.6', '1.7', '1.8', '1.9', '1.10', '1.11', '1.12', '1.13'].includes(project.version) && (project as any).materials.colorChecker) {
                 const loadedColors = (project as any).materials.colorChecker!.colors;
                 const newColorsSignal: string[][] = [];
                 for (let i = 0; i < loadedColors.length; i++) {
@@ -1840,7 +3400,7 @@ export class AppComponent implements AfterViewInit {
                     if (!newColorsSignal[row]) newColorsSignal[row] = [];
                     newColorsSignal[row][col] = loadedColors[i];
                     const patch = this.colorCheckerPatches[row]?.[col];
-                    if (patch) (patch.material as THREE.MeshStandardMaterial).color.set(loadedColors[i]);
+                    if (patch) (patch.material as THREE.MeshStandardMaterial).color.copy(this.parseColorCheckerColor(loadedColors[i]));
                 }
                 this.colorCheckerColors.set(newColorsSignal);
             } else { this.resetColorChecker(); }
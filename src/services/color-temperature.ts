@@ -0,0 +1,130 @@
+/**
+ * Correlated color temperature (CCT) / tint estimation and white-balance matrices for linear sRGB data.
+ * Tint is Duv, the signed distance from the Planckian locus in CIE 1960 uv (positive = greenish, negative = magenta).
+ */
+
+/** Row-major 3x3 matrix acting on linear sRGB. */
+export type ColorMatrix = [number, number, number, number, number, number, number, number, number];
+
+export interface ColorTemperature {
+  /** Kelvin. */
+  cct: number;
+  duv: number;
+}
+
+export const IDENTITY_COLOR_MATRIX: ColorMatrix = [1, 0, 0, 0, 1, 0, 0, 0, 1];
+
+// White point of sRGB; balanced images are adapted to it
+const D65 = { x: 0.31271, y: 0.32902 };
+
+// Range of Krystek's Planckian locus approximation
+export const MIN_CCT = 1000;
+export const MAX_CCT = 15000;
+
+const SRGB_TO_XYZ: ColorMatrix = [0.4124564, 0.3575761, 0.1804375, 0.2126729, 0.7151522, 0.0721750, 0.0193339, 0.1191920, 0.9503041];
+const XYZ_TO_SRGB: ColorMatrix = [3.2404542, -1.5371385, -0.4985314, -0.9692660, 1.8760108, 0.0415560, 0.0556434, -0.2040259, 1.0572252];
+const BRADFORD: ColorMatrix = [0.8951, 0.2664, -0.1614, -0.7502, 1.7135, 0.0367, 0.0389, -0.0685, 1.0296];
+const BRADFORD_INVERSE: ColorMatrix = [0.9869929, -0.1470543, 0.1599627, 0.4323053, 0.5183603, 0.0492912, -0.0085287, 0.0400428, 0.9684867];
+
+/** CCT/tint of D65, i.e. the white balance setting that leaves an image unchanged. */
+export const NEUTRAL_WHITE_BALANCE: ColorTemperature = xyToCct(D65.x, D65.y);
+
+/**
+ * Nearest point on the Planckian locus (searched in mired, which is close to uniform along the locus)
+ * and the signed distance to it. Colors far off the locus still get an answer; their Duv tells how meaningful it is.
+ */
+export function xyToCct(x: number, y: number): ColorTemperature {
+  const target = xyToUv(x, y);
+  const distance = (mired: number) => {
+    const p = planckianUv(1e6 / mired);
+    return (p.u - target.u) ** 2 + (p.v - target.v) ** 2;
+  };
+
+  // Coarse scan, then golden-section refinement around the best sample
+  const minMired = 1e6 / MAX_CCT, maxMired = 1e6 / MIN_CCT, steps = 200;
+  let best = minMired;
+  for (let i = 0; i <= steps; i++) {
+    const mired = minMired + (maxMired - minMired) * i / steps;
+    if (distance(mired) < distance(best)) best = mired;
+  }
+  const step = (maxMired - minMired) / steps;
+  let a = Math.max(minMired, best - step), b = Math.min(maxMired, best + step);
+  const ratio = (Math.sqrt(5) - 1) / 2;
+  for (let i = 0; i < 40; i++) {
+    const c = b - (b - a) * ratio, d = a + (b - a) * ratio;
+    if (distance(c) < distance(d)) b = d; else a = c;
+  }
+  const cct = 1e6 / ((a + b) / 2);
+
+  const p = planckianUv(cct), normal = locusNormal(cct);
+  const duv = (target.u - p.u) * normal.u + (target.v - p.v) * normal.v;
+  return { cct, duv };
+}
+
+/** Inverse of `xyToCct`: the chromaticity `duv` away from the locus at `cct`. */
+export function cctToXy(cct: number, duv: number): { x: number; y: number } {
+  const p = planckianUv(cct), normal = locusNormal(cct);
+  const u = p.u + normal.u * duv, v = p.v + normal.v * duv;
+  const d = 2 * u - 8 * v + 4;
+  return { x: 3 * u / d, y: 2 * v / d };
+}
+
+/**
+ * Bradford chromatic adaptation (in linear sRGB) that turns a light of the given temperature/tint into D65 white,
+ * so it renders neutral.
+ */
+export function whiteBalanceMatrix(temperature: ColorTemperature): ColorMatrix {
+  const source = cctToXy(temperature.cct, temperature.duv);
+  const sourceCone = applyColorMatrix(BRADFORD, ...xyToXyz(source.x, source.y));
+  const targetCone = applyColorMatrix(BRADFORD, ...xyToXyz(D65.x, D65.y));
+  const scale: ColorMatrix = [targetCone[0] / sourceCone[0], 0, 0, 0, targetCone[1] / sourceCone[1], 0, 0, 0, targetCone[2] / sourceCone[2]];
+  return multiplyMatrices(XYZ_TO_SRGB, multiplyMatrices(BRADFORD_INVERSE, multiplyMatrices(scale, multiplyMatrices(BRADFORD, SRGB_TO_XYZ))));
+}
+
+export function applyColorMatrix(m: ColorMatrix, r: number, g: number, b: number): [number, number, number] {
+  return [
+    m[0] * r + m[1] * g + m[2] * b,
+    m[3] * r + m[4] * g + m[5] * b,
+    m[6] * r + m[7] * g + m[8] * b,
+  ];
+}
+
+export function isIdentityColorMatrix(m: ColorMatrix): boolean {
+  return m.every((value, i) => Math.abs(value - IDENTITY_COLOR_MATRIX[i]) < 1e-6);
+}
+
+/** Krystek's rational approximation of the Planckian locus in CIE 1960 uv (1000-15000 K). */
+function planckianUv(t: number): { u: number; v: number } {
+  return {
+    u: (0.860117757 + 1.54118254e-4 * t + 1.28641212e-7 * t * t) / (1 + 8.42420235e-4 * t + 7.08145163e-7 * t * t),
+    v: (0.317398726 + 4.22806245e-5 * t + 4.20481691e-8 * t * t) / (1 - 2.89741816e-5 * t + 1.61456053e-7 * t * t),
+  };
+}
+
+/** Unit normal of the locus at `t`, pointing to the green side (+v). */
+function locusNormal(t: number): { u: number; v: number } {
+  const a = planckianUv(t * 0.999), b = planckianUv(t * 1.001);
+  const du = b.u - a.u, dv = b.v - a.v;
+  const length = Math.hypot(du, dv);
+  const normal = { u: -dv / length, v: du / length };
+  return normal.v < 0 ? { u: -normal.u, v: -normal.v } : normal;
+}
+
+function xyToUv(x: number, y: number): { u: number; v: number } {
+  const d = -2 * x + 12 * y + 3;
+  return { u: 4 * x / d, v: 6 * y / d };
+}
+
+function xyToXyz(x: number, y: number): [number, number, number] {
+  return [x / y, 1, (1 - x - y) / y];
+}
+
+function multiplyMatrices(a: ColorMatrix, b: ColorMatrix): ColorMatrix {
+  const out = new Array(9).fill(0) as ColorMatrix;
+  for (let row = 0; row < 3; row++) {
+    for (let col = 0; col < 3; col++) {
+      for (let k = 0; k < 3; k++) out[row * 3 + col] += a[row * 3 + k] * b[k * 3 + col];
+    }
+  }
+  return out;
+}
@@ -0,0 +1,67 @@
+import { Injectable } from '@angular/core';
+
+/** One rendered frame of the sheet with the two label lines drawn under it. */
+export interface ContactSheetTile {
+  image: CanvasImageSource;
+  title: string;
+  caption: string;
+}
+
+export interface ContactSheetLayout {
+  tileWidth: number;
+  tileHeight: number;
+  columns: number;
+}
+
+const GAP = 16;
+const LABEL_HEIGHT = 44;
+const BACKGROUND = '#18181b';
+const TITLE_COLOR = '#f4f4f5';
+const CAPTION_COLOR = '#a1a1aa';
+const FONT_FAMILY = 'system-ui, -apple-system, "Segoe UI", sans-serif';
+
+@Injectable({
+  providedIn: 'root'
+})
+export class ContactSheetService {
+  /** Lays the tiles out row by row in a labelled grid and encodes it as PNG. */
+  compose(tiles: ContactSheetTile[], layout: ContactSheetLayout): Promise<Blob> {
+    const { tileWidth, tileHeight } = layout;
+    const columns = Math.max(1, Math.min(layout.columns, tiles.length));
+    const rows = Math.ceil(tiles.length / columns);
+    const cellHeight = tileHeight + LABEL_HEIGHT;
+
+    const canvas = document.createElement('canvas');
+    canvas.width = GAP + columns * (tileWidth + GAP);
+    canvas.height = GAP + rows * (cellHeight + GAP);
+    const ctx = canvas.getContext('2d')!;
+    ctx.fillStyle = BACKGROUND;
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    ctx.textBaseline = 'top';
+
+    tiles.forEach((tile, i) => {
+      const x = GAP + (i % columns) * (tileWidth + GAP);
+      const y = GAP + Math.floor(i / columns) * (cellHeight + GAP);
+      ctx.drawImage(tile.image, x, y, tileWidth, tileHeight);
+
+      ctx.font = `600 14px ${FONT_FAMILY}`;
+      ctx.fillStyle = TITLE_COLOR;
+      ctx.fillText(this.fitText(ctx, tile.title, tileWidth), x, y + tileHeight + 8);
+      ctx.font = `12px ${FONT_FAMILY}`;
+      ctx.fillStyle = CAPTION_COLOR;
+      ctx.fillText(this.fitText(ctx, tile.caption, tileWidth), x, y + tileHeight + 26);
+    });
+
+    return new Promise((resolve, reject) => {
+      canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error('Could not encode the contact sheet.')), 'image/png');
+    });
+  }
+
+  /** Shortens text with an ellipsis until it fits the tile width. */
+  private fitText(ctx: CanvasRenderingContext2D, text: string, maxWidth: number): string {
+    if (ctx.measureText(text).width <= maxWidth) return text;
+    let end = text.length;
+    while (end > 0 && ctx.measureText(text.slice(0, end) + '…').width > maxWidth) end--;
+    return text.slice(0, end) + '…';
+  }
+}
@@ -0,0 +1,92 @@
+/**
+ * Adobe / Resolve .cube LUT parser. Handles 1D and 3D LUTs with DOMAIN_MIN/MAX (or Resolve's
+ * LUT_xD_INPUT_RANGE); Resolve's combined shaper + 3D files are rejected rather than half applied.
+ */
+
+export type CubeLutKind = '1d' | '3d';
+
+export interface CubeLut {
+  title: string;
+  kind: CubeLutKind;
+  /** Entries per axis: N for 1D, N per side (N³ entries) for 3D. */
+  size: number;
+  domainMin: [number, number, number];
+  domainMax: [number, number, number];
+  /** RGB triplets in file order; for 3D red changes fastest, then green, then blue. */
+  data: Float32Array;
+}
+
+// 1D tables become a single texture row, so stay within common MAX_TEXTURE_SIZE limits
+const MAX_1D_SIZE = 16384;
+const MAX_3D_SIZE = 256;
+
+export function parseCubeLut(text: string, fallbackTitle: string): CubeLut {
+  let title = fallbackTitle;
+  let size1d = 0;
+  let size3d = 0;
+  let domainMin: [number, number, number] = [0, 0, 0];
+  let domainMax: [number, number, number] = [1, 1, 1];
+  const values: number[] = [];
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (!line || line.startsWith('#')) continue;
+    const [keyword, ...args] = line.split(/\s+/);
+
+    if (/^[-+.\d]/.test(keyword)) {
+      const rgb = [keyword, ...args].map(Number);
+      if (rgb.length !== 3 || rgb.some(v => !Number.isFinite(v))) throw new Error(`Invalid LUT entry: "${line}"`);
+      values.push(...rgb);
+      continue;
+    }
+    switch (keyword.toUpperCase()) {
+      case 'TITLE':
+        title = line.slice(keyword.length).trim().replace(/^"(.*)"$/, '$1') || title;
+        break;
+      case 'LUT_1D_SIZE':
+        size1d = parseInt(args[0], 10);
+        break;
+      case 'LUT_3D_SIZE':
+        size3d = parseInt(args[0], 10);
+        break;
+      case 'DOMAIN_MIN':
+        domainMin = parseTriplet(args, line);
+        break;
+      case 'DOMAIN_MAX':
+        domainMax = parseTriplet(args, line);
+        break;
+      case 'LUT_1D_INPUT_RANGE':
+      case 'LUT_3D_INPUT_RANGE': {
+        const [min, max] = args.map(Number);
+        if (!Number.isFinite(min) || !Number.isFinite(max)) throw new Error(`Invalid input range: "${line}"`);
+        domainMin = [min, min, min];
+        domainMax = [max, max, max];
+        break;
+      }
+      default:
+        // Unknown keywords (e.g. LUT_IN_VIDEO_RANGE) don't change the table itself
+        break;
+    }
+  }
+
+  if (size1d && size3d) throw new Error('LUTs with a 1D shaper and a 3D table are not supported.');
+  if (!size1d && !size3d) throw new Error('Missing LUT_1D_SIZE or LUT_3D_SIZE.');
+  const kind: CubeLutKind = size3d ? '3d' : '1d';
+  const size = size3d || size1d;
+  if (!Number.isInteger(size) || size < 2 || size > (kind === '3d' ? MAX_3D_SIZE : MAX_1D_SIZE)) {
+    throw new Error(`Unsupported LUT size: ${size}`);
+  }
+  const expected = (kind === '3d' ? size ** 3 : size) * 3;
+  if (values.length !== expected) {
+    throw new Error(`Expected ${expected / 3} LUT entries, found ${values.length / 3}.`);
+  }
+  if (domainMin.some((min, i) => min >= domainMax[i])) throw new Error('DOMAIN_MIN must be below DOMAIN_MAX.');
+
+  return { title, kind, size, domainMin, domainMax, data: new Float32Array(values) };
+}
+
+function parseTriplet(args: string[], line: string): [number, number, number] {
+  const values = args.slice(0, 3).map(Number);
+  if (values.length !== 3 || values.some(v => !Number.isFinite(v))) throw new Error(`Invalid domain: "${line}"`);
+  return values as [number, number, number];
+}
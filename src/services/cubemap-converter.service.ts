@@ -0,0 +1,163 @@
+import { Injectable } from '@angular/core';
+import * as THREE from 'three';
+import { DecodedHdri } from './hdri-codec';
+import { equirectUvToDirection } from './equirect-mapping';
+
+export type CubemapLayout = 'auto' | 'six-files' | 'horizontal-cross' | 'vertical-cross' | 'strip';
+
+/** Region of a source image holding one cube face. */
+interface FaceView {
+  image: DecodedHdri;
+  x: number;
+  y: number;
+  size: number;
+  rotate180: boolean;
+}
+
+// Face order used throughout: +X, -X, +Y, -Y, +Z, -Z (OpenGL convention, faces seen from inside the cube)
+const FACE_NAME_PATTERNS: RegExp[] = [
+  /(^|[^a-z])(px|posx|pos_x|right|rt)([^a-z]|$)/i,
+  /(^|[^a-z])(nx|negx|neg_x|left|lf)([^a-z]|$)/i,
+  /(^|[^a-z])(py|posy|pos_y|top|up)([^a-z]|$)/i,
+  /(^|[^a-z])(ny|negy|neg_y|bottom|down|bot|dn)([^a-z]|$)/i,
+  /(^|[^a-z])(pz|posz|pos_z|front|ft)([^a-z]|$)/i,
+  /(^|[^a-z])(nz|negz|neg_z|back|bk)([^a-z]|$)/i,
+];
+
+@Injectable({
+  providedIn: 'root'
+})
+export class CubemapConverterService {
+
+  /**
+   * Guesses the layout of a single image from its aspect ratio.
+   * Returns null for anything that is not a recognised cube layout (e.g. a 2:1 equirect).
+   */
+  detectLayout(width: number, height: number): Exclude<CubemapLayout, 'auto' | 'six-files'> | null {
+    const aspect = width / height;
+    if (Math.abs(aspect - 4 / 3) < 0.01) return 'horizontal-cross';
+    if (Math.abs(aspect - 3 / 4) < 0.01) return 'vertical-cross';
+    if (Math.abs(aspect - 6) < 0.01 || Math.abs(aspect - 1 / 6) < 0.01) return 'strip';
+    return null;
+  }
+
+  /**
+   * Sorts six face files into +X, -X, +Y, -Y, +Z, -Z order using common naming schemes
+   * (px/nx, posx/negx, right/left/top/bottom/front/back). Falls back to the selection order.
+   */
+  orderFaceFiles<T extends { name: string }>(files: T[]): T[] {
+    const ordered = FACE_NAME_PATTERNS.map(pattern => files.filter(f => pattern.test(f.name.replace(/\.[^.]+$/, ''))));
+    if (ordered.every(matches => matches.length === 1) && new Set(ordered.map(m => m[0])).size === 6) {
+      return ordered.map(m => m[0]);
+    }
+    return [...files];
+  }
+
+  fromFaces(faces: DecodedHdri[]): DecodedHdri {
+    if (faces.length !== 6) throw new Error('A cubemap needs exactly six face images.');
+    const size = faces[0].width;
+    if (faces.some(f => f.width !== size || f.height !== size)) {
+      throw new Error('All cube faces must be square and share the same resolution.');
+    }
+    return this.resample(faces.map(image => ({ image, x: 0, y: 0, size, rotate180: false })), size);
+  }
+
+  fromSingleImage(image: DecodedHdri, layout: Exclude<CubemapLayout, 'auto' | 'six-files'>): DecodedHdri {
+    const { width, height } = image;
+    const face = (col: number, row: number, size: number, rotate180 = false): FaceView =>
+      ({ image, x: col * size, y: row * size, size, rotate180 });
+
+    switch (layout) {
+      case 'horizontal-cross': {
+        //      +Y
+        //  -X  +Z  +X  -Z
+        //      -Y
+        const size = Math.floor(width / 4);
+        return this.resample([face(2, 1, size), face(0, 1, size), face(1, 0, size), face(1, 2, size), face(1, 1, size), face(3, 1, size)], size);
+      }
+      case 'vertical-cross': {
+        //      +Y
+        //  -X  +Z  +X
+        //      -Y
+        //      -Z (stored upside down)
+        const size = Math.floor(width / 3);
+        return this.resample([face(2, 1, size), face(0, 1, size), face(1, 0, size), face(1, 2, size), face(1, 1, size), face(1, 3, size, true)], size);
+      }
+      case 'strip': {
+        // +X -X +Y -Y +Z -Z, laid out horizontally or vertically
+        const horizontal = width > height;
+        const size = horizontal ? Math.floor(width / 6) : Math.floor(height / 6);
+        return this.resample([0, 1, 2, 3, 4, 5].map(i => horizontal ? face(i, 0, size) : face(0, i, size)), size);
+      }
+    }
+  }
+
+  /**
+   * Resamples six faces into a 2:1 equirect in three's equirect mapping, as every other service:
+   * u = 0.5 faces +X, u = 0.75 faces +Z, v = 0 is straight up.
+   */
+  private resample(faces: FaceView[], faceSize: number): DecodedHdri {
+    const width = faceSize * 4;
+    const height = faceSize * 2;
+    const data = new Float32Array(width * height * 4);
+    const color = new Float32Array(3);
+    const direction = new THREE.Vector3();
+
+    for (let y = 0; y < height; y++) {
+      const v = (y + 0.5) / height;
+      for (let x = 0; x < width; x++) {
+        equirectUvToDirection((x + 0.5) / width, v, direction);
+        this.sampleCube(faces, direction.x, direction.y, direction.z, color);
+        const i = (y * width + x) * 4;
+        data[i] = color[0];
+        data[i + 1] = color[1];
+        data[i + 2] = color[2];
+        data[i + 3] = 1;
+      }
+    }
+
+    return { width, height, data, source: faces[0].image.source };
+  }
+
+  private sampleCube(faces: FaceView[], x: number, y: number, z: number, out: Float32Array): void {
+    const ax = Math.abs(x), ay = Math.abs(y), az = Math.abs(z);
+    let index: number, sc: number, tc: number, ma: number;
+
+    if (ax >= ay && ax >= az) {
+      ma = ax;
+      if (x > 0) { index = 0; sc = -z; tc = -y; } else { index = 1; sc = z; tc = -y; }
+    } else if (ay >= az) {
+      ma = ay;
+      if (y > 0) { index = 2; sc = x; tc = z; } else { index = 3; sc = x; tc = -z; }
+    } else {
+      ma = az;
+      if (z > 0) { index = 4; sc = x; tc = -y; } else { index = 5; sc = -x; tc = -y; }
+    }
+
+    const face = faces[index];
+    let u = (sc / ma + 1) * 0.5;
+    let v = (tc / ma + 1) * 0.5;
+    if (face.rotate180) { u = 1 - u; v = 1 - v; }
+    this.sampleBilinear(face, u, v, out);
+  }
+
+  private sampleBilinear(face: FaceView, u: number, v: number, out: Float32Array): void {
+    const { image, size } = face;
+    // Clamp to texel centres so filtering never bleeds into a neighbouring face of the same image
+    const fx = Math.min(size - 1, Math.max(0, u * size - 0.5));
+    const fy = Math.min(size - 1, Math.max(0, v * size - 0.5));
+    const x0 = Math.floor(fx), y0 = Math.floor(fy);
+    const x1 = Math.min(size - 1, x0 + 1), y1 = Math.min(size - 1, y0 + 1);
+    const tx = fx - x0, ty = fy - y0;
+
+    const stride = image.width * 4;
+    const row0 = (face.y + y0) * stride, row1 = (face.y + y1) * stride;
+    const col0 = (face.x + x0) * 4, col1 = (face.x + x1) * 4;
+    const d = image.data;
+    for (let c = 0; c < 3; c++) {
+      const top = d[row0 + col0 + c] * (1 - tx) + d[row0 + col1 + c] * tx;
+      const bottom = d[row1 + col0 + c] * (1 - tx) + d[row1 + col1 + c] * tx;
+      out[c] = top * (1 - ty) + bottom * ty;
+    }
+  }
+}
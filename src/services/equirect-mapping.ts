@@ -0,0 +1,75 @@
+/**
+ * Equirect <-> direction mapping, identical to three's `equirectUv` used for equirect and PMREM environments:
+ * u = 0.5 faces +X, u = 0.75 faces +Z, v = 0 is straight up. Directions are in the HDRI's own frame;
+ * an `HdriOrientation` turns them into the scene the same way `scene.backgroundRotation` does.
+ */
+import * as THREE from 'three';
+
+const X_AXIS = new THREE.Vector3(1, 0, 0);
+const Y_AXIS = new THREE.Vector3(0, 1, 0);
+const Z_AXIS = new THREE.Vector3(0, 0, 1);
+
+export function equirectUvToDirection(u: number, v: number, target = new THREE.Vector3()): THREE.Vector3 {
+  const azimuth = (u - 0.5) * 2 * Math.PI;
+  const latitude = (0.5 - v) * Math.PI;
+  return target.set(Math.cos(latitude) * Math.cos(azimuth), Math.sin(latitude), Math.cos(latitude) * Math.sin(azimuth));
+}
+
+export function directionToEquirectUv(direction: THREE.Vector3): { u: number; v: number } {
+  const d = direction.clone().normalize();
+  const u = Math.atan2(d.z, d.x) / (2 * Math.PI) + 0.5;
+  const v = 0.5 - Math.asin(THREE.MathUtils.clamp(d.y, -1, 1)) / Math.PI;
+  return { u: u - Math.floor(u), v };
+}
+
+/** How the HDRI sits in the scene: yaw in turns (the Rotate slider), pitch and roll levelling in degrees. */
+export interface HdriOrientation {
+  rotation: number;
+  pitch: number;
+  roll: number;
+}
+
+/**
+ * Euler for `scene.backgroundRotation` / `environmentRotation`. three applies it negated, so the 'XZY' order
+ * gives world = Ry(yaw) * Rz(roll) * Rx(pitch) * hdri: the horizon is levelled first, then yaw spins it.
+ */
+export function orientationToEuler(orientation: HdriOrientation, target = new THREE.Euler()): THREE.Euler {
+  return target.set(
+    THREE.MathUtils.degToRad(orientation.pitch),
+    orientation.rotation * 2 * Math.PI,
+    THREE.MathUtils.degToRad(orientation.roll),
+    'XZY'
+  );
+}
+
+/** HDRI frame -> world. */
+export function hdriToWorld(direction: THREE.Vector3, orientation: HdriOrientation): THREE.Vector3 {
+  return direction
+    .applyAxisAngle(X_AXIS, THREE.MathUtils.degToRad(orientation.pitch))
+    .applyAxisAngle(Z_AXIS, THREE.MathUtils.degToRad(orientation.roll))
+    .applyAxisAngle(Y_AXIS, orientation.rotation * 2 * Math.PI);
+}
+
+/** World -> HDRI frame. */
+export function worldToHdri(direction: THREE.Vector3, orientation: HdriOrientation): THREE.Vector3 {
+  return direction
+    .applyAxisAngle(Y_AXIS, -orientation.rotation * 2 * Math.PI)
+    .applyAxisAngle(Z_AXIS, -THREE.MathUtils.degToRad(orientation.roll))
+    .applyAxisAngle(X_AXIS, -THREE.MathUtils.degToRad(orientation.pitch));
+}
+
+/**
+ * Pitch/roll (degrees) that bring the great circle through two equirect points onto the horizon.
+ * Null when the points are (nearly) the same or opposite and don't define a circle.
+ */
+export function levelHorizon(a: { u: number; v: number }, b: { u: number; v: number }): { pitch: number; roll: number } | null {
+  const normal = equirectUvToDirection(a.u, a.v).cross(equirectUvToDirection(b.u, b.v));
+  if (normal.lengthSq() < 1e-6) return null;
+  normal.normalize();
+  if (normal.y < 0) normal.negate();
+
+  // Rx(pitch) moves the normal into the XY plane, Rz(roll) then stands it up along +Y
+  const pitch = Math.atan2(-normal.z, normal.y);
+  const roll = Math.atan2(normal.x, Math.hypot(normal.y, normal.z));
+  return { pitch: THREE.MathUtils.radToDeg(pitch), roll: THREE.MathUtils.radToDeg(roll) };
+}
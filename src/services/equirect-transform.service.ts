@@ -0,0 +1,167 @@
+import { Injectable } from '@angular/core';
+import * as THREE from 'three';
+import { DecodedHdri } from './hdri-codec';
+import { ColorMatrix } from './color-temperature';
+import { HdriOrientation, worldToHdri } from './equirect-mapping';
+
+export interface EquirectBakeOptions {
+  /** Yaw in turns (0-1), same unit as the viewer's rotation slider. */
+  rotation: number;
+  /** Horizon levelling in degrees, as in `HdriOrientation`. */
+  pitch?: number;
+  roll?: number;
+  /** Linear multiplier applied to every pixel. */
+  exposure: number;
+  /** White balance (or any other linear RGB transform) applied before exposure. */
+  colorMatrix?: ColorMatrix;
+  /** Output width; height is always width / 2. Omit to keep the source resolution. */
+  width?: number;
+}
+
+@Injectable({
+  providedIn: 'root'
+})
+export class EquirectTransformService {
+
+  /**
+   * Bakes rotation, white balance, exposure and an optional resize into a new equirect buffer.
+   * Rotation matches the viewer's background (see equirect-mapping): a feature at u ends up at u - rotation.
+   */
+  bake(src: DecodedHdri, options: EquirectBakeOptions): DecodedHdri {
+    const width = Math.max(2, Math.round(options.width ?? src.width));
+    const height = Math.max(1, Math.round(width / 2));
+
+    // Yaw alone is a horizontal (wrapping) shift of the equirect, so both passes stay separable.
+    // Pitch/roll need a full remap first, done at the source resolution before resizing.
+    const levelled = options.pitch || options.roll
+      ? this.reorient(src.data, src.width, src.height, { rotation: options.rotation, pitch: options.pitch ?? 0, roll: options.roll ?? 0 })
+      : null;
+    const shift = levelled ? 0 : -options.rotation * src.width;
+    const rows = this.resampleRows(levelled ?? src.data, src.width, src.height, width, shift);
+    const data = this.resampleColumns(rows, width, src.height, height);
+
+    const m = options.colorMatrix;
+    if (m) {
+      const e = options.exposure;
+      for (let i = 0; i < data.length; i += 4) {
+        const r = data[i], g = data[i + 1], b = data[i + 2];
+        data[i] = (m[0] * r + m[1] * g + m[2] * b) * e;
+        data[i + 1] = (m[3] * r + m[4] * g + m[5] * b) * e;
+        data[i + 2] = (m[6] * r + m[7] * g + m[8] * b) * e;
+      }
+    } else if (options.exposure !== 1) {
+      for (let i = 0; i < data.length; i += 4) {
+        data[i] *= options.exposure;
+        data[i + 1] *= options.exposure;
+        data[i + 2] *= options.exposure;
+      }
+    }
+
+    return { width, height, data, source: src.source };
+  }
+
+  /** Bilinear remap so that each output pixel shows the world direction it faces at `orientation`. */
+  private reorient(src: Float32Array, width: number, height: number, orientation: HdriOrientation): Float32Array {
+    const out = new Float32Array(width * height * 4);
+    const direction = new THREE.Vector3();
+    for (let y = 0; y < height; y++) {
+      const latitude = (0.5 - (y + 0.5) / height) * Math.PI;
+      const cosLat = Math.cos(latitude), sinLat = Math.sin(latitude);
+      for (let x = 0; x < width; x++) {
+        const azimuth = ((x + 0.5) / width - 0.5) * 2 * Math.PI;
+        worldToHdri(direction.set(cosLat * Math.cos(azimuth), sinLat, cosLat * Math.sin(azimuth)), orientation);
+
+        // Back to pixel coordinates of the source (see equirectUv), wrapping horizontally
+        const sx = (Math.atan2(direction.z, direction.x) / (2 * Math.PI) + 0.5) * width - 0.5;
+        const sy = (0.5 - Math.asin(Math.max(-1, Math.min(1, direction.y))) / Math.PI) * height - 0.5;
+        const x0 = Math.floor(sx), y0 = Math.floor(sy);
+        const fx = sx - x0, fy = sy - y0;
+        const xa = ((x0 % width) + width) % width, xb = (xa + 1) % width;
+        const ya = Math.max(0, y0), yb = Math.min(height - 1, y0 + 1);
+
+        const o = (y * width + x) * 4;
+        for (let c = 0; c < 3; c++) {
+          const top = src[(ya * width + xa) * 4 + c] * (1 - fx) + src[(ya * width + xb) * 4 + c] * fx;
+          const bottom = src[(yb * width + xa) * 4 + c] * (1 - fx) + src[(yb * width + xb) * 4 + c] * fx;
+          out[o + c] = top * (1 - fy) + bottom * fy;
+        }
+        out[o + 3] = 1;
+      }
+    }
+    return out;
+  }
+
+  /** Horizontal pass with wrap-around; `shift` is in source pixels. */
+  private resampleRows(src: Float32Array, width: number, height: number, newWidth: number, shift: number): Float32Array {
+    const taps = this.buildTaps(width, newWidth, shift, true);
+    const out = new Float32Array(newWidth * height * 4);
+    for (let y = 0; y < height; y++) {
+      const srcRow = y * width * 4;
+      const dstRow = y * newWidth * 4;
+      for (let x = 0; x < newWidth; x++) {
+        const { indices, weights } = taps[x];
+        let r = 0, g = 0, b = 0;
+        for (let t = 0; t < indices.length; t++) {
+          const i = srcRow + indices[t] * 4;
+          r += src[i] * weights[t];
+          g += src[i + 1] * weights[t];
+          b += src[i + 2] * weights[t];
+        }
+        const o = dstRow + x * 4;
+        out[o] = r; out[o + 1] = g; out[o + 2] = b; out[o + 3] = 1;
+      }
+    }
+    return out;
+  }
+
+  /** Vertical pass, clamped at the poles. */
+  private resampleColumns(src: Float32Array, width: number, height: number, newHeight: number): Float32Array {
+    if (height === newHeight) return src;
+    const taps = this.buildTaps(height, newHeight, 0, false);
+    const out = new Float32Array(width * newHeight * 4);
+    for (let y = 0; y < newHeight; y++) {
+      const { indices, weights } = taps[y];
+      const dstRow = y * width * 4;
+      for (let x = 0; x < width; x++) {
+        let r = 0, g = 0, b = 0;
+        for (let t = 0; t < indices.length; t++) {
+          const i = (indices[t] * width + x) * 4;
+          r += src[i] * weights[t];
+          g += src[i + 1] * weights[t];
+          b += src[i + 2] * weights[t];
+        }
+        const o = dstRow + x * 4;
+        out[o] = r; out[o + 1] = g; out[o + 2] = b; out[o + 3] = 1;
+      }
+    }
+    return out;
+  }
+
+  /**
+   * Tent filter taps for every output sample. The filter widens when downscaling,
+   * so every source pixel contributes instead of being skipped.
+   */
+  private buildTaps(srcLength: number, dstLength: number, shift: number, wrap: boolean): { indices: Int32Array; weights: Float32Array }[] {
+    const scale = srcLength / dstLength;
+    const radius = Math.max(1, scale);
+    const taps: { indices: Int32Array; weights: Float32Array }[] = [];
+
+    for (let i = 0; i < dstLength; i++) {
+      const center = (i + 0.5) * scale - 0.5 - shift;
+      const start = Math.ceil(center - radius);
+      const end = Math.floor(center + radius);
+      const indices: number[] = [];
+      const weights: number[] = [];
+      let total = 0;
+      for (let s = start; s <= end; s++) {
+        const w = 1 - Math.abs(s - center) / radius;
+        if (w <= 0) continue;
+        indices.push(wrap ? ((s % srcLength) + srcLength) % srcLength : Math.min(srcLength - 1, Math.max(0, s)));
+        weights.push(w);
+        total += w;
+      }
+      taps.push({ indices: Int32Array.from(indices), weights: Float32Array.from(weights.map(w => w / total)) });
+    }
+    return taps;
+  }
+}
@@ -0,0 +1,84 @@
+/**
+ * Photographic exposure for the viewer: EV100 <-> the linear exposure multiplier, camera settings
+ * (ISO, shutter, f-stop) -> EV100, and reflected-light metering of an equirect environment.
+ * HDRI values are taken as Radiance units (× 179 = cd/m²), the same scale as the pixel probe's nits.
+ */
+import * as THREE from 'three';
+import { DecodedHdri } from './hdri-codec';
+import { equirectUvToDirection } from './equirect-mapping';
+import { luminance, RADIANCE_EFFICACY } from './hdri-analysis';
+import { MIDDLE_GRAY } from './false-color.service';
+
+export type MeteringMode = 'Average' | 'Center-weighted' | 'Spot';
+
+export interface CameraExposure {
+  iso: number;
+  /** Seconds. */
+  shutter: number;
+  /** f-number. */
+  aperture: number;
+}
+
+// Reflected-light meter calibration constant and the sensitivity EV100 refers to
+const METER_CALIBRATION = 12.5;
+const BASE_ISO = 100;
+// Sample grid for environment metering; large HDRIs are strided down to about this size
+const METER_WIDTH = 256;
+// Cosine lobe exponent of the center weighting, about half weight 23° off the view direction
+const CENTER_WEIGHT_POWER = 8;
+// Luminance floor of the log average, so black pixels don't pull it to zero
+const MIN_LUMINANCE = 1e-6;
+
+/** EV100 of a metered luminance (Radiance units), from the reflected-light meter equation. */
+export function ev100FromLuminance(value: number): number {
+  return Math.log2(Math.max(value, MIN_LUMINANCE) * RADIANCE_EFFICACY * BASE_ISO / METER_CALIBRATION);
+}
+
+/** Exposure multiplier that renders a scene metered at `ev100` with its metered luminance at 18% gray (False Color's 0 EV). */
+export function exposureFromEv100(ev100: number): number {
+  const meteredLuminance = Math.pow(2, ev100) * METER_CALIBRATION / BASE_ISO / RADIANCE_EFFICACY;
+  return MIDDLE_GRAY / meteredLuminance;
+}
+
+export function ev100FromExposure(exposure: number): number {
+  return ev100FromLuminance(MIDDLE_GRAY / Math.max(exposure, 1e-10));
+}
+
+/** EV100 = log2(N² / t) - log2(ISO / 100). */
+export function ev100FromCamera(camera: CameraExposure): number {
+  return Math.log2(camera.aperture * camera.aperture / camera.shutter) - Math.log2(camera.iso / BASE_ISO);
+}
+
+/** Shutter time that gives `ev100` at the camera's ISO and aperture, as a camera in aperture priority. */
+export function shutterForEv100(ev100: number, camera: CameraExposure): number {
+  return camera.aperture * camera.aperture / Math.pow(2, ev100 + Math.log2(camera.iso / BASE_ISO));
+}
+
+/**
+ * Log-average luminance of the environment, weighted by solid angle and for center-weighted metering
+ * by a cosine lobe around `viewDirection` (in the HDRI's frame). The log average keeps a small sun
+ * from dominating, as camera meters do.
+ */
+export function meterEnvironment(hdri: DecodedHdri, viewDirection: THREE.Vector3 | null): number {
+  const { width, height, data } = hdri;
+  const stride = Math.max(1, Math.floor(width / METER_WIDTH));
+  const direction = new THREE.Vector3();
+  let weightSum = 0;
+  let logSum = 0;
+  for (let y = 0; y < height; y += stride) {
+    const v = (y + 0.5) / height;
+    const solidAngle = Math.cos((0.5 - v) * Math.PI);
+    for (let x = 0; x < width; x += stride) {
+      let weight = solidAngle;
+      if (viewDirection) {
+        equirectUvToDirection((x + 0.5) / width, v, direction);
+        weight *= Math.pow(Math.max(0, direction.dot(viewDirection)), CENTER_WEIGHT_POWER);
+        if (weight === 0) continue;
+      }
+      const i = (y * width + x) * 4;
+      logSum += weight * Math.log2(Math.max(luminance(data[i], data[i + 1], data[i + 2]), MIN_LUMINANCE));
+      weightSum += weight;
+    }
+  }
+  return weightSum > 0 ? Math.pow(2, logSum / weightSum) : MIN_LUMINANCE;
+}
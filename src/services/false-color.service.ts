@@ -0,0 +1,190 @@
+import { Injectable } from '@angular/core';
+import * as THREE from 'three';
+import { DecodedHdri, PreviewImage } from './hdri-codec';
+import { LUMINANCE_WEIGHTS } from './hdri-analysis';
+
+export interface FalseColorSettings {
+  /** Range covered by the color ramp, in stops relative to 18% gray. */
+  minEv: number;
+  maxEv: number;
+  zebra: boolean;
+  /** Zebra stripes are drawn over everything brighter than this (stops relative to 18% gray). */
+  zebraEv: number;
+}
+
+/** One legend entry; `ev` is the lower edge of the stop. */
+export interface FalseColorZone {
+  ev: number;
+  color: string;
+}
+
+export const MIDDLE_GRAY = 0.18;
+export const MAX_FALSE_COLOR_STOPS = 32;
+
+// Ramp anchors (display sRGB), spread evenly over the chosen range: deep shadows purple/blue,
+// mid tones green, highlights yellow to red, the last stops pink
+const RAMP: [number, number, number][] = [
+  [0.3, 0.0, 0.5],
+  [0.0, 0.15, 0.85],
+  [0.0, 0.6, 0.9],
+  [0.0, 0.7, 0.25],
+  [0.85, 0.85, 0.0],
+  [1.0, 0.5, 0.0],
+  [0.9, 0.0, 0.0],
+  [1.0, 0.45, 0.8],
+];
+const UNDER_COLOR: [number, number, number] = [0, 0, 0];
+const OVER_COLOR: [number, number, number] = [1, 1, 1];
+const ZEBRA_PERIOD = 8;
+
+@Injectable({
+  providedIn: 'root'
+})
+export class FalseColorService {
+
+  /** One color per stop from `minEv` (inclusive) to `maxEv` (exclusive). */
+  zoneColors(settings: FalseColorSettings): [number, number, number][] {
+    const stops = this.stopCount(settings);
+    return Array.from({ length: stops }, (_, i) => {
+      const t = stops > 1 ? i / (stops - 1) * (RAMP.length - 1) : 0;
+      const a = RAMP[Math.floor(t)], b = RAMP[Math.min(RAMP.length - 1, Math.floor(t) + 1)];
+      const f = t - Math.floor(t);
+      return [0, 1, 2].map(c => a[c] + (b[c] - a[c]) * f) as [number, number, number];
+    });
+  }
+
+  legend(settings: FalseColorSettings): { zones: FalseColorZone[]; under: string; over: string } {
+    return {
+      zones: this.zoneColors(settings).map((color, i) => ({ ev: Math.round(settings.minEv) + i, color: this.toCss(color) })),
+      under: this.toCss(UNDER_COLOR),
+      over: this.toCss(OVER_COLOR),
+    };
+  }
+
+  /**
+   * Background skybox that shows the equirect in false color. It mirrors three's own background
+   * cube (drawn first, at the far plane, following the camera) and reads rotation and exposure
+   * from the scene and renderer every frame, so it lines up exactly with the regular background.
+   */
+  createBackground(texture: THREE.Texture, settings: FalseColorSettings): THREE.Mesh {
+    const material = new THREE.ShaderMaterial({
+      name: 'FalseColorBackground',
+      uniforms: {
+        map: { value: texture },
+        rotation: { value: new THREE.Matrix3() },
+        exposure: { value: 1 },
+        minEv: { value: 0 },
+        stopCount: { value: 1 },
+        zones: { value: Array.from({ length: MAX_FALSE_COLOR_STOPS }, () => new THREE.Vector3()) },
+        zebra: { value: false },
+        zebraEv: { value: 0 },
+      },
+      defines: { MAX_STOPS: MAX_FALSE_COLOR_STOPS, MIDDLE_GRAY: MIDDLE_GRAY.toFixed(3), ZEBRA_PERIOD: ZEBRA_PERIOD.toFixed(1) },
+      vertexShader: /* glsl */`
+        varying vec3 vWorldDirection;
+        #include <common>
+        void main() {
+          vWorldDirection = transformDirection( position, modelMatrix );
+          #include <begin_vertex>
+          #include <project_vertex>
+          gl_Position.z = gl_Position.w;
+        }
+      `,
+      fragmentShader: /* glsl */`
+        uniform sampler2D map;
+        uniform mat3 rotation;
+        uniform float exposure;
+        uniform float minEv;
+        uniform int stopCount;
+        uniform vec3 zones[ MAX_STOPS ];
+        uniform bool zebra;
+        uniform float zebraEv;
+        varying vec3 vWorldDirection;
+        #include <common>
+        void main() {
+          vec3 color = texture2D( map, equirectUv( normalize( rotation * vWorldDirection ) ) ).rgb * exposure;
+          float ev = log2( max( dot( color, vec3( ${LUMINANCE_WEIGHTS.join(', ')} ) ), 1e-10 ) / MIDDLE_GRAY );
+          int zone = int( floor( ev - minEv ) );
+          vec3 result = zone < 0 ? vec3( ${UNDER_COLOR.join(', ')} ) : zone >= stopCount ? vec3( ${OVER_COLOR.join(', ')} ) : zones[ zone ];
+          if ( zebra && ev >= zebraEv && mod( gl_FragCoord.x + gl_FragCoord.y, ZEBRA_PERIOD ) < ZEBRA_PERIOD * 0.5 ) {
+            result = vec3( 0.0 );
+          }
+          // Already display colors: negative alpha lets the view transform pass leave them alone
+          gl_FragColor = vec4( result, - 1.0 );
+        }
+      `,
+      side: THREE.BackSide,
+      depthTest: false,
+      depthWrite: false,
+      toneMapped: false,
+    });
+
+    const mesh = new THREE.Mesh(new THREE.BoxGeometry(1, 1, 1), material);
+    mesh.frustumCulled = false;
+    mesh.renderOrder = -1000;
+    const euler = new THREE.Euler();
+    const matrix = new THREE.Matrix4();
+    mesh.onBeforeRender = (renderer: THREE.WebGLRenderer, scene: THREE.Scene, camera: THREE.Camera) => {
+      mesh.matrixWorld.copyPosition(camera.matrixWorld);
+      // Same convention three uses for PMREM backgrounds
+      euler.copy(scene.backgroundRotation);
+      euler.x *= -1; euler.y *= -1; euler.z *= -1;
+      material.uniforms['rotation'].value.setFromMatrix4(matrix.makeRotationFromEuler(euler));
+      material.uniforms['exposure'].value = renderer.toneMappingExposure;
+    };
+
+    this.updateBackground(mesh, settings);
+    return mesh;
+  }
+
+  updateBackground(mesh: THREE.Mesh, settings: FalseColorSettings): void {
+    const uniforms = (mesh.material as THREE.ShaderMaterial).uniforms;
+    const colors = this.zoneColors(settings);
+    uniforms['minEv'].value = Math.round(settings.minEv);
+    uniforms['stopCount'].value = colors.length;
+    colors.forEach((color, i) => uniforms['zones'].value[i].set(...color));
+    uniforms['zebra'].value = settings.zebra;
+    uniforms['zebraEv'].value = settings.zebraEv;
+  }
+
+  /**
+   * False color version of the equirect preview (nearest neighbor), using the same ramp as the background.
+   */
+  renderPreview(hdri: DecodedHdri, settings: FalseColorSettings, exposure: number, maxWidth: number): PreviewImage {
+    const { width, height, data } = hdri;
+    const scale = Math.min(1, maxWidth / width);
+    const previewWidth = Math.max(1, Math.floor(width * scale));
+    const previewHeight = Math.max(1, Math.floor(height * scale));
+    const pixels = new Uint8ClampedArray(previewWidth * previewHeight * 4);
+    const colors = this.zoneColors(settings).map(c => c.map(v => v * 255));
+    const under = UNDER_COLOR.map(v => v * 255), over = OVER_COLOR.map(v => v * 255);
+    const minEv = Math.round(settings.minEv);
+
+    for (let y = 0; y < previewHeight; y++) {
+      const srcRow = Math.min(height - 1, Math.floor(y / scale)) * width;
+      for (let x = 0; x < previewWidth; x++) {
+        const i = (srcRow + Math.min(width - 1, Math.floor(x / scale))) * 4;
+        const lum = (LUMINANCE_WEIGHTS[0] * data[i] + LUMINANCE_WEIGHTS[1] * data[i + 1] + LUMINANCE_WEIGHTS[2] * data[i + 2]) * exposure;
+        const ev = Math.log2(Math.max(lum, 1e-10) / MIDDLE_GRAY);
+        const zone = Math.floor(ev - minEv);
+        let color = zone < 0 ? under : zone >= colors.length ? over : colors[zone];
+        if (settings.zebra && ev >= settings.zebraEv && (x + y) % ZEBRA_PERIOD < ZEBRA_PERIOD / 2) color = [0, 0, 0];
+
+        const o = (y * previewWidth + x) * 4;
+        pixels[o] = color[0];
+        pixels[o + 1] = color[1];
+        pixels[o + 2] = color[2];
+        pixels[o + 3] = 255;
+      }
+    }
+    return { width: previewWidth, height: previewHeight, pixels };
+  }
+
+  private stopCount(settings: FalseColorSettings): number {
+    return Math.min(MAX_FALSE_COLOR_STOPS, Math.max(1, Math.round(settings.maxEv) - Math.round(settings.minEv)));
+  }
+
+  private toCss(color: [number, number, number]): string {
+    return `rgb(${color.map(c => Math.round(c * 255)).join(', ')})`;
+  }
+}
@@ -0,0 +1,472 @@
+/**
+ * DOM-free decoding helpers shared by the decoder worker and the main-thread fallback.
+ */
+import * as THREE from 'three';
+import { HDRLoader } from 'three/addons/loaders/HDRLoader.js';
+import { EXRLoader } from 'three/addons/loaders/EXRLoader.js';
+import { computeHdriStats, HdriStats } from './hdri-analysis';
+import { checkHdriQuality, HdriQualityReport } from './hdri-quality';
+
+/**
+ * Decoded equirectangular environment.
+ * `data` is always RGBA Float32, rows ordered top (north pole) to bottom.
+ */
+export interface DecodedHdri {
+  width: number;
+  height: number;
+  data: Float32Array;
+  source: HdriSource;
+}
+
+export type HdriFormat = 'radiance' | 'exr' | 'image';
+
+/** Where the radiance values came from: a real HDR file, an 8-bit image, or an SDR image + gain map. */
+export type HdriSource = 'hdr' | 'ldr' | 'gain-map';
+
+/** Expansion applied to 8-bit panoramas, which only cover the [0, 1] range after linearization. */
+export interface LdrDecodeOptions {
+  inverseTonemap: boolean;
+  boostEv: number;
+}
+
+/** Gain map metadata (hdrgm XMP namespace). Log values are stored as log2, one entry per RGB channel. */
+interface GainMapMetadata {
+  gainMapMin: number[];
+  gainMapMax: number[];
+  gamma: number[];
+  offsetSdr: number[];
+  offsetHdr: number[];
+}
+
+/** 8-bit sRGB thumbnail of an HDRI, ready for `putImageData`. */
+export interface PreviewImage {
+  width: number;
+  height: number;
+  pixels: Uint8ClampedArray;
+}
+
+/** Called with overall progress (0-1) and a short description of the current stage. */
+export type ProgressCallback = (progress: number, stage: string) => void;
+
+export interface DecodeRequest {
+  id: number;
+  type: 'decode';
+  /** Object/remote URL (streamed so download progress can be reported) or an in-memory file. */
+  source: string | Blob;
+  name: string;
+  format: HdriFormat;
+  ldrOptions?: LdrDecodeOptions;
+  /** Width of the generated preview; 0 skips it. */
+  previewWidth: number;
+  /** Sources wider than this get a downsampled copy for the environment map; 0 means no limit. */
+  maxEnvironmentWidth: number;
+  /** Width of the quick environment sent ahead of the full one for large sources; 0 disables it. */
+  lowResWidth: number;
+}
+
+/** Decodes a source for its quality report only, so none of the pixel buffers travel back. */
+export interface QualityRequest {
+  id: number;
+  type: 'quality';
+  source: string | Blob;
+  name: string;
+  format: HdriFormat;
+  ldrOptions?: LdrDecodeOptions;
+}
+
+export interface CancelRequest {
+  id: number;
+  type: 'cancel';
+}
+
+export type DecoderWorkerRequest = DecodeRequest | QualityRequest | CancelRequest;
+
+export interface HdriDecodeResult {
+  /** Full resolution data, used for analysis, light sampling and export. */
+  hdri: DecodedHdri;
+  /** What should be uploaded for PMREM; the same object as `hdri` unless it exceeded the size limit. */
+  environment: DecodedHdri;
+  /** Null when the preview was already delivered with the low-res environment. */
+  preview: PreviewImage | null;
+  stats: HdriStats;
+  /** Clipping, seam and pole checks. */
+  quality: HdriQualityReport;
+}
+
+export type DecodeResponse =
+  | { id: number; type: 'progress'; progress: number; stage: string }
+  | { id: number; type: 'low-res'; environment: DecodedHdri; preview: PreviewImage | null }
+  | ({ id: number; type: 'result' } & HdriDecodeResult)
+  | { id: number; type: 'quality'; quality: HdriQualityReport }
+  | { id: number; type: 'error'; message: string };
+
+export interface DecodeCallbacks {
+  onProgress?: ProgressCallback;
+  onLowRes?: (environment: DecodedHdri, preview: PreviewImage | null) => void;
+}
+
+// Peak value an inverse-tonemapped white pixel expands to (4 stops above diffuse white)
+const INVERSE_TONEMAP_PEAK = 16;
+
+const DEFAULT_LDR_OPTIONS: LdrDecodeOptions = { inverseTonemap: false, boostEv: 0 };
+
+// Rows processed between progress reports in the per-pixel loops
+const PROGRESS_ROWS = 64;
+
+/**
+ * Reads the source (reporting download progress when the size is known) and decodes it.
+ * Large sources first yield a quick low-res environment through `onLowRes`, then the full result.
+ * Progress: 0-0.3 read, 0.3-0.75 decode, 0.75-0.8 low-res environment or preview, 0.8-0.9 statistics and quality, 0.9-1 resizing.
+ */
+export async function decodeHdriSource(
+  request: Omit<DecodeRequest, 'id' | 'type'>,
+  callbacks: DecodeCallbacks = {},
+  signal?: AbortSignal,
+): Promise<HdriDecodeResult> {
+  const onProgress = callbacks.onProgress ?? (() => {});
+  onProgress(0, `Reading ${request.name}...`);
+  const buffer = await readSource(request.source, request.name, p => onProgress(p * 0.3, `Reading ${request.name}...`), signal);
+  await checkpoint(signal);
+
+  onProgress(0.3, `Decoding ${request.name}...`);
+  const hdri = await decodeHdri(buffer, request.format, request.ldrOptions ?? DEFAULT_LDR_OPTIONS,
+    p => onProgress(0.3 + p * 0.45, `Decoding ${request.name}...`));
+  await checkpoint(signal);
+
+  let preview: PreviewImage | null = null;
+  if (request.lowResWidth > 0 && hdri.width > request.lowResWidth * 2) {
+    onProgress(0.75, 'Building low-res environment...');
+    const lowRes = downsampleHdri(hdri, request.lowResWidth);
+    callbacks.onLowRes?.(lowRes, request.previewWidth > 0 ? createPreview(lowRes, request.previewWidth) : null);
+    await checkpoint(signal);
+  } else if (request.previewWidth > 0) {
+    onProgress(0.75, 'Generating preview...');
+    preview = createPreview(hdri, request.previewWidth);
+  }
+
+  // Both scan the full-res buffer, so they wait until the low-res environment is on screen
+  onProgress(0.8, 'Analysing...');
+  const stats = computeHdriStats(hdri);
+  const quality = checkHdriQuality(hdri, stats.weightedMeanLuminance);
+
+  let environment = hdri;
+  if (request.maxEnvironmentWidth > 0 && hdri.width > request.maxEnvironmentWidth) {
+    onProgress(0.9, `Resizing environment to ${request.maxEnvironmentWidth}px...`);
+    environment = downsampleHdri(hdri, request.maxEnvironmentWidth);
+  }
+  onProgress(1, 'Uploading to GPU...');
+  return { hdri, environment, preview, stats, quality };
+}
+
+/** Reads and decodes the source, keeping only the clipping, seam and pole checks. */
+export async function checkHdriSourceQuality(request: Omit<QualityRequest, 'id' | 'type'>, signal?: AbortSignal): Promise<HdriQualityReport> {
+  const buffer = await readSource(request.source, request.name, () => {}, signal);
+  await checkpoint(signal);
+  const hdri = await decodeHdri(buffer, request.format, request.ldrOptions ?? DEFAULT_LDR_OPTIONS);
+  await checkpoint(signal);
+  return checkHdriQuality(hdri, computeHdriStats(hdri).weightedMeanLuminance);
+}
+
+export async function decodeHdri(buffer: ArrayBuffer, format: HdriFormat, ldrOptions: LdrDecodeOptions, onProgress?: (progress: number) => void): Promise<DecodedHdri> {
+  switch (format) {
+    case 'exr': return decodeExr(buffer, onProgress);
+    case 'image': return decodeImage(buffer, ldrOptions, onProgress);
+    default: return decodeRadiance(buffer);
+  }
+}
+
+/**
+ * Downscaled (nearest neighbor) preview with a simple Reinhard tonemap and 2.2 gamma.
+ */
+export function createPreview(hdri: DecodedHdri, maxWidth: number): PreviewImage {
+  const { width, height, data } = hdri;
+  const scale = Math.min(1, maxWidth / width);
+  const previewWidth = Math.max(1, Math.floor(width * scale));
+  const previewHeight = Math.max(1, Math.floor(height * scale));
+  const pixels = new Uint8ClampedArray(previewWidth * previewHeight * 4);
+
+  // Reinhard x / (x + 1) -> Gamma 2.2
+  const tm = (c: number) => Math.pow(c / (c + 1), 1 / 2.2) * 255;
+
+  for (let y = 0; y < previewHeight; y++) {
+    const srcRow = Math.min(height - 1, Math.floor(y / scale)) * width;
+    for (let x = 0; x < previewWidth; x++) {
+      const srcIdx = (srcRow + Math.min(width - 1, Math.floor(x / scale))) * 4;
+      const dstIdx = (y * previewWidth + x) * 4;
+      pixels[dstIdx] = tm(data[srcIdx]);
+      pixels[dstIdx + 1] = tm(data[srcIdx + 1]);
+      pixels[dstIdx + 2] = tm(data[srcIdx + 2]);
+      pixels[dstIdx + 3] = 255;
+    }
+  }
+  return { width: previewWidth, height: previewHeight, pixels };
+}
+
+/**
+ * Box-filtered downsample; every source pixel contributes so small bright sources (the sun) keep their energy.
+ */
+export function downsampleHdri(hdri: DecodedHdri, width: number): DecodedHdri {
+  const { width: srcWidth, height: srcHeight, data: src } = hdri;
+  const height = Math.max(1, Math.round(srcHeight * width / srcWidth));
+  const data = new Float32Array(width * height * 4);
+  const scaleX = srcWidth / width;
+  const scaleY = srcHeight / height;
+
+  for (let y = 0; y < height; y++) {
+    const y0 = Math.floor(y * scaleY);
+    const y1 = Math.max(y0 + 1, Math.floor((y + 1) * scaleY));
+    for (let x = 0; x < width; x++) {
+      const x0 = Math.floor(x * scaleX);
+      const x1 = Math.max(x0 + 1, Math.floor((x + 1) * scaleX));
+      let r = 0, g = 0, b = 0;
+      for (let sy = y0; sy < y1; sy++) {
+        let i = (sy * srcWidth + x0) * 4;
+        for (let sx = x0; sx < x1; sx++, i += 4) {
+          r += src[i];
+          g += src[i + 1];
+          b += src[i + 2];
+        }
+      }
+      const n = (y1 - y0) * (x1 - x0);
+      const o = (y * width + x) * 4;
+      data[o] = r / n;
+      data[o + 1] = g / n;
+      data[o + 2] = b / n;
+      data[o + 3] = 1;
+    }
+  }
+  return { width, height, data, source: hdri.source };
+}
+
+/** Yields to the event loop so a pending cancel message can be handled, then bails out if it arrived. */
+async function checkpoint(signal?: AbortSignal): Promise<void> {
+  if (!signal) return;
+  await new Promise(resolve => setTimeout(resolve));
+  signal.throwIfAborted();
+}
+
+async function readSource(source: string | Blob, name: string, onProgress: (progress: number) => void, signal?: AbortSignal): Promise<ArrayBuffer> {
+  if (typeof source !== 'string') return source.arrayBuffer();
+
+  const response = await fetch(source, { signal });
+  if (!response.ok) throw new Error(`Failed to read ${name}: ${response.statusText}`);
+  const total = Number(response.headers.get('Content-Length'));
+  if (!response.body || !total) return response.arrayBuffer();
+
+  const chunks: Uint8Array[] = [];
+  const reader = response.body.getReader();
+  let received = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    chunks.push(value);
+    received += value.length;
+    // Content-Length is the compressed size for encoded responses, so clamp
+    onProgress(Math.min(1, received / total));
+  }
+
+  const buffer = new Uint8Array(received);
+  let offset = 0;
+  for (const chunk of chunks) {
+    buffer.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return buffer.buffer;
+}
+
+function decodeRadiance(buffer: ArrayBuffer): DecodedHdri {
+  const loader = new HDRLoader();
+  loader.setDataType(THREE.FloatType);
+  const result = loader.parse(buffer);
+  return { width: result.width, height: result.height, data: result.data as Float32Array, source: 'hdr' };
+}
+
+function decodeExr(buffer: ArrayBuffer, onProgress?: (progress: number) => void): DecodedHdri {
+  const view = new DataView(buffer);
+  if (buffer.byteLength < 8 || view.getUint32(0, true) !== 20000630) {
+    throw new Error('File is not a valid OpenEXR image.');
+  }
+  // Version field flags: 0x08 = deep data, 0x10 = multi-part
+  const flags = view.getUint8(5);
+  if (flags & 0x18) {
+    throw new Error('Multi-part and deep OpenEXR files are not supported. Please export a single-part image.');
+  }
+
+  const loader = new EXRLoader();
+  loader.setDataType(THREE.FloatType);
+  const result = loader.parse(buffer);
+  const { width, height } = result;
+  const src = result.data as Float32Array;
+  const channels = result.format === THREE.RGBAFormat ? 4 : 1;
+
+  // EXRLoader writes rows bottom-up (flipY = false) and may return luminance-only data.
+  // Normalize to top-down RGBA so the preview and light sampling can treat every format alike.
+  const data = new Float32Array(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    if (onProgress && y % PROGRESS_ROWS === 0) onProgress(0.5 + 0.5 * y / height);
+    const srcRow = (height - 1 - y) * width * channels;
+    const dstRow = y * width * 4;
+    for (let x = 0; x < width; x++) {
+      const s = srcRow + x * channels;
+      const d = dstRow + x * 4;
+      if (channels === 4) {
+        data[d] = src[s];
+        data[d + 1] = src[s + 1];
+        data[d + 2] = src[s + 2];
+      } else {
+        data[d] = data[d + 1] = data[d + 2] = src[s];
+      }
+      data[d + 3] = 1;
+    }
+  }
+
+  return { width, height, data, source: 'hdr' };
+}
+
+/**
+ * Decodes an 8-bit panorama. Ultra HDR JPEGs carrying a gain map are reconstructed to
+ * linear HDR; everything else is linearized from sRGB and optionally expanded.
+ */
+async function decodeImage(buffer: ArrayBuffer, options: LdrDecodeOptions, onProgress?: (progress: number) => void): Promise<DecodedHdri> {
+  const bytes = new Uint8Array(buffer);
+  const base = await readPixels(new Blob([bytes]));
+  const gainMap = isJpeg(bytes) ? findGainMap(bytes) : null;
+
+  if (gainMap) {
+    // The gain map is usually stored at a lower resolution; let the canvas upscale it to the base size
+    const gainPixels = await readPixels(new Blob([gainMap.image]), base.width, base.height, 'none');
+    return applyGainMap(base, gainPixels, gainMap.metadata, onProgress);
+  }
+
+  return expandLdr(base, options, onProgress);
+}
+
+async function readPixels(blob: Blob, width?: number, height?: number, colorSpaceConversion: ColorSpaceConversion = 'default'): Promise<ImageData> {
+  const bitmap = await createImageBitmap(blob, { colorSpaceConversion, premultiplyAlpha: 'none' });
+  // OffscreenCanvas works both in the decoder worker and on the main thread
+  const canvas = new OffscreenCanvas(width ?? bitmap.width, height ?? bitmap.height);
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) throw new Error('Could not get 2D context from OffscreenCanvas');
+  ctx.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+  bitmap.close();
+  return ctx.getImageData(0, 0, canvas.width, canvas.height);
+}
+
+function expandLdr(image: ImageData, options: LdrDecodeOptions, onProgress?: (progress: number) => void): DecodedHdri {
+  // 8-bit input only has 256 possible values per channel, so build the whole transfer curve once
+  const boost = Math.pow(2, options.boostEv);
+  const lut = new Float32Array(256);
+  for (let i = 0; i < 256; i++) {
+    let value = srgbToLinear(i / 255);
+    if (options.inverseTonemap) {
+      // Inverse Reinhard, capped so pure white maps to INVERSE_TONEMAP_PEAK instead of infinity
+      value = value / (1 - value + 1 / INVERSE_TONEMAP_PEAK);
+    }
+    lut[i] = value * boost;
+  }
+
+  const src = image.data;
+  const data = new Float32Array(image.width * image.height * 4);
+  const rowLength = image.width * 4;
+  for (let i = 0; i < src.length; i += 4) {
+    if (onProgress && i % (rowLength * PROGRESS_ROWS) === 0) onProgress(0.5 + 0.5 * i / src.length);
+    data[i] = lut[src[i]];
+    data[i + 1] = lut[src[i + 1]];
+    data[i + 2] = lut[src[i + 2]];
+    data[i + 3] = 1;
+  }
+  return { width: image.width, height: image.height, data, source: 'ldr' };
+}
+
+/**
+ * Reconstructs the full HDR rendition (weight = 1) following the Adobe / Ultra HDR gain map math:
+ * HDR = (SDR + offsetSdr) * 2^(lerp(gainMapMin, gainMapMax, gain^(1/gamma))) - offsetHdr
+ */
+function applyGainMap(base: ImageData, gain: ImageData, meta: GainMapMetadata, onProgress?: (progress: number) => void): DecodedHdri {
+  const sdrLut = new Float32Array(256);
+  for (let i = 0; i < 256; i++) sdrLut[i] = srgbToLinear(i / 255);
+
+  // Per-channel boost factor for every possible 8-bit gain value
+  const boostLut = [0, 1, 2].map(c => {
+    const lut = new Float32Array(256);
+    for (let i = 0; i < 256; i++) {
+      const recovery = Math.pow(i / 255, 1 / meta.gamma[c]);
+      const logBoost = meta.gainMapMin[c] + (meta.gainMapMax[c] - meta.gainMapMin[c]) * recovery;
+      lut[i] = Math.pow(2, logBoost);
+    }
+    return lut;
+  });
+
+  const src = base.data;
+  const gainData = gain.data;
+  const data = new Float32Array(base.width * base.height * 4);
+  const rowLength = base.width * 4;
+  for (let i = 0; i < src.length; i += 4) {
+    if (onProgress && i % (rowLength * PROGRESS_ROWS) === 0) onProgress(0.5 + 0.5 * i / src.length);
+    for (let c = 0; c < 3; c++) {
+      const sdr = sdrLut[src[i + c]];
+      const hdr = (sdr + meta.offsetSdr[c]) * boostLut[c][gainData[i + c]] - meta.offsetHdr[c];
+      data[i + c] = Math.max(0, hdr);
+    }
+    data[i + 3] = 1;
+  }
+  return { width: base.width, height: base.height, data, source: 'gain-map' };
+}
+
+function isJpeg(bytes: Uint8Array): boolean {
+  return bytes[0] === 0xFF && bytes[1] === 0xD8;
+}
+
+/**
+ * Locates the secondary gain map JPEG appended after the primary image (MPF container).
+ * Embedded EXIF thumbnails are also JPEGs, so a candidate only counts if its XMP carries gain map metadata.
+ */
+function findGainMap(bytes: Uint8Array): { image: Uint8Array; metadata: GainMapMetadata } | null {
+  for (let i = 2; i < bytes.length - 3; i++) {
+    if (bytes[i] !== 0xFF || bytes[i + 1] !== 0xD8 || bytes[i + 2] !== 0xFF) continue;
+
+    const header = readJpegHeader(bytes, i);
+    const gainMapMax = readXmpValues(header, 'GainMapMax');
+    if (!gainMapMax) continue;
+
+    const triple = (values: number[] | null, fallback: number) => {
+      const v = values ?? [fallback];
+      return [v[0], v[1] ?? v[0], v[2] ?? v[0]];
+    };
+    return {
+      image: bytes.subarray(i),
+      metadata: {
+        gainMapMin: triple(readXmpValues(header, 'GainMapMin'), 0),
+        gainMapMax: triple(gainMapMax, 1),
+        gamma: triple(readXmpValues(header, 'Gamma'), 1),
+        offsetSdr: triple(readXmpValues(header, 'OffsetSDR'), 1 / 64),
+        offsetHdr: triple(readXmpValues(header, 'OffsetHDR'), 1 / 64),
+      }
+    };
+  }
+  return null;
+}
+
+/** Returns the marker segments (APPn, including XMP) of the JPEG starting at `start`, up to its start of scan. */
+function readJpegHeader(bytes: Uint8Array, start: number): string {
+  let offset = start + 2;
+  while (offset + 4 <= bytes.length && bytes[offset] === 0xFF && bytes[offset + 1] !== 0xDA) {
+    offset += 2 + ((bytes[offset + 2] << 8) | bytes[offset + 3]);
+  }
+  return new TextDecoder('latin1').decode(bytes.subarray(start, Math.min(offset, bytes.length)));
+}
+
+/** Reads an hdrgm value written either as an attribute or as an rdf:Seq with one entry per channel. */
+function readXmpValues(xmp: string, key: string): number[] | null {
+  const attribute = new RegExp(`hdrgm:${key}="([^"]*)"`).exec(xmp);
+  if (attribute) return [parseFloat(attribute[1])];
+
+  const element = new RegExp(`<hdrgm:${key}>([\\s\\S]*?)</hdrgm:${key}>`).exec(xmp);
+  if (!element) return null;
+  const items = Array.from(element[1].matchAll(/<rdf:li>([^<]*)<\/rdf:li>/g), m => parseFloat(m[1]));
+  return items.length > 0 ? items : [parseFloat(element[1])];
+}
+
+function srgbToLinear(c: number): number {
+  return c <= 0.04045 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4);
+}
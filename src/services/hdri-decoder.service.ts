@@ -0,0 +1,180 @@
+import { Injectable } from '@angular/core';
+import * as THREE from 'three';
+import { checkHdriSourceQuality, DecodeCallbacks, DecodedHdri, DecodeRequest, DecodeResponse, decodeHdriSource, HdriDecodeResult, HdriFormat, LdrDecodeOptions, QualityRequest } from './hdri-codec';
+import { HdriQualityReport } from './hdri-quality';
+
+export type { DecodedHdri, HdriDecodeResult, HdriFormat, HdriSource, LdrDecodeOptions, PreviewImage } from './hdri-codec';
+export type { HdriHistogram, HdriStats } from './hdri-analysis';
+export type { HdriQualityReport, QualityCheck, QualityRegion, QualityStatus } from './hdri-quality';
+
+export interface HdriDecodeOptions extends DecodeCallbacks {
+  ldrOptions?: LdrDecodeOptions;
+  /** Width of the tonemapped preview to build alongside; omit to skip it. */
+  previewWidth?: number;
+  /** Cap for the environment copy handed to PMREM; omit for no limit. */
+  maxEnvironmentWidth?: number;
+  /** Width of the quick environment delivered through `onLowRes` for large sources; omit to skip it. */
+  lowResWidth?: number;
+  /** Aborting rejects with an `AbortError` and stops the worker job at the next stage boundary. */
+  signal?: AbortSignal;
+}
+
+/** The worker's final answer to a job: the full decode result or a quality report. */
+type FinalResponse = Extract<DecodeResponse, { type: 'result' | 'quality' }>;
+
+interface DecodeJob extends DecodeCallbacks {
+  resolve: (response: FinalResponse) => void;
+  reject: (error: Error) => void;
+}
+
+const IMAGE_MIME_TYPES: Record<string, string> = {
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  avif: 'image/avif',
+  webp: 'image/webp',
+};
+
+@Injectable({
+  providedIn: 'root'
+})
+export class HdriDecoderService {
+  private worker: Worker | null = null;
+  private jobs = new Map<number, DecodeJob>();
+  private nextJobId = 1;
+
+  isSupportedFile(name: string): boolean {
+    return /\.(hdr|pic|exr|jpe?g|png|avif|webp)$/i.test(name);
+  }
+
+  /**
+   * Detects the container format from the file name.
+   * Names without a known extension (e.g. the demo scene) fall back to Radiance.
+   */
+  getFormat(name: string): HdriFormat {
+    if (/\.exr$/i.test(name)) return 'exr';
+    if (/\.(jpe?g|png|avif|webp)$/i.test(name)) return 'image';
+    return 'radiance';
+  }
+
+  getMimeType(name: string): string {
+    switch (this.getFormat(name)) {
+      case 'exr': return 'image/x-exr';
+      case 'image': return IMAGE_MIME_TYPES[name.split('.').pop()!.toLowerCase()];
+      default: return 'image/vnd.radiance';
+    }
+  }
+
+  /**
+   * Decodes an HDRI in the decoder worker so parsing, format normalization and preview
+   * tonemapping never block the UI. The pixel buffers are transferred, not copied.
+   */
+  decode(source: string | Blob, name: string, options: HdriDecodeOptions = {}): Promise<HdriDecodeResult> {
+    const { signal, onProgress, onLowRes } = options;
+    const request: Omit<DecodeRequest, 'id'> = {
+      type: 'decode',
+      source,
+      name,
+      format: this.getFormat(name),
+      ldrOptions: options.ldrOptions,
+      previewWidth: options.previewWidth ?? 0,
+      maxEnvironmentWidth: options.maxEnvironmentWidth ?? 0,
+      lowResWidth: options.lowResWidth ?? 0,
+    };
+    if (signal?.aborted) return Promise.reject(signal.reason);
+
+    const worker = this.getWorker();
+    if (!worker) return decodeHdriSource(request, { onProgress, onLowRes }, signal);
+
+    return this.runJob(worker, request, { onProgress, onLowRes }, signal).then(response => {
+      const data = response as Extract<FinalResponse, { type: 'result' }>;
+      return { hdri: data.hdri, environment: data.environment, preview: data.preview, stats: data.stats, quality: data.quality };
+    });
+  }
+
+  /**
+   * Decodes an HDRI in the worker for its clipping, seam and pole checks only. Unlike `decode`,
+   * no pixel buffers are sent back, so checking a large library doesn't copy every full-res map.
+   */
+  checkQuality(source: string | Blob, name: string, options: Pick<HdriDecodeOptions, 'ldrOptions' | 'signal'> = {}): Promise<HdriQualityReport> {
+    const { signal } = options;
+    const request: Omit<QualityRequest, 'id'> = {
+      type: 'quality',
+      source,
+      name,
+      format: this.getFormat(name),
+      ldrOptions: options.ldrOptions,
+    };
+    if (signal?.aborted) return Promise.reject(signal.reason);
+
+    const worker = this.getWorker();
+    if (!worker) return checkHdriSourceQuality(request, signal);
+
+    return this.runJob(worker, request, {}, signal).then(response => (response as Extract<FinalResponse, { type: 'quality' }>).quality);
+  }
+
+  /**
+   * Wraps decoded data in a texture suitable for `PMREMGenerator.fromEquirectangular`.
+   */
+  createTexture(hdri: DecodedHdri): THREE.DataTexture {
+    const texture = new THREE.DataTexture(hdri.data, hdri.width, hdri.height, THREE.RGBAFormat, THREE.FloatType);
+    texture.mapping = THREE.EquirectangularReflectionMapping;
+    texture.colorSpace = THREE.LinearSRGBColorSpace;
+    texture.minFilter = THREE.LinearFilter;
+    texture.magFilter = THREE.LinearFilter;
+    texture.generateMipmaps = false;
+    // Data is stored top-down, same as the Radiance loader output
+    texture.flipY = true;
+    texture.needsUpdate = true;
+    return texture;
+  }
+
+  private runJob(worker: Worker, request: Omit<DecodeRequest, 'id'> | Omit<QualityRequest, 'id'>, callbacks: DecodeCallbacks, signal?: AbortSignal): Promise<FinalResponse> {
+    const id = this.nextJobId++;
+    return new Promise((resolve, reject) => {
+      this.jobs.set(id, { resolve, reject, ...callbacks });
+      worker.postMessage({ ...request, id });
+      signal?.addEventListener('abort', () => {
+        if (!this.jobs.delete(id)) return;
+        worker.postMessage({ id, type: 'cancel' });
+        reject(signal.reason);
+      }, { once: true });
+    });
+  }
+
+  private getWorker(): Worker | null {
+    if (this.worker || typeof Worker === 'undefined') return this.worker;
+
+    this.worker = new Worker(new URL('./hdri-decoder.worker', import.meta.url), { type: 'module' });
+    this.worker.onmessage = ({ data }: MessageEvent<DecodeResponse>) => {
+      const job = this.jobs.get(data.id);
+      if (!job) return;
+      switch (data.type) {
+        case 'progress':
+          job.onProgress?.(data.progress, data.stage);
+          break;
+        case 'low-res':
+          job.onLowRes?.(data.environment, data.preview);
+          break;
+        case 'result':
+        case 'quality':
+          this.jobs.delete(data.id);
+          job.resolve(data);
+          break;
+        case 'error':
+          this.jobs.delete(data.id);
+          job.reject(new Error(data.message));
+          break;
+      }
+    };
+    this.worker.onerror = (event) => {
+      // The worker failed to start or crashed; fail everything in flight and retry with a fresh one next time
+      console.error('HDRI decoder worker error:', event);
+      this.jobs.forEach(job => job.reject(new Error(event.message || 'HDRI decoder worker failed.')));
+      this.jobs.clear();
+      this.worker?.terminate();
+      this.worker = null;
+    };
+    return this.worker;
+  }
+}
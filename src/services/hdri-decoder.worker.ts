@@ -0,0 +1,42 @@
+/// <reference lib="webworker" />
+
+import { checkHdriSourceQuality, decodeHdriSource, DecodeResponse, DecoderWorkerRequest } from './hdri-codec';
+
+// Jobs in flight, so a cancel message can stop a stale decode between stages
+const controllers = new Map<number, AbortController>();
+
+addEventListener('message', async ({ data }: MessageEvent<DecoderWorkerRequest>) => {
+  if (data.type === 'cancel') {
+    controllers.get(data.id)?.abort();
+    return;
+  }
+
+  const { id } = data;
+  const controller = new AbortController();
+  controllers.set(id, controller);
+
+  // Hand the buffers over instead of copying them; a 16k float HDRI is ~2 GB
+  const post = (response: DecodeResponse, transfer: Transferable[] = []) => postMessage(response, [...new Set(transfer)]);
+  try {
+    if (data.type === 'quality') {
+      post({ id, type: 'quality', quality: await checkHdriSourceQuality(data, controller.signal) });
+      return;
+    }
+
+    const { hdri, environment, preview, stats, quality } = await decodeHdriSource(data, {
+      onProgress: (progress, stage) => post({ id, type: 'progress', progress, stage }),
+      onLowRes: (lowRes, lowResPreview) => post(
+        { id, type: 'low-res', environment: lowRes, preview: lowResPreview },
+        lowResPreview ? [lowRes.data.buffer, lowResPreview.pixels.buffer] : [lowRes.data.buffer],
+      ),
+    }, controller.signal);
+
+    const transfer: Transferable[] = [hdri.data.buffer, environment.data.buffer];
+    if (preview) transfer.push(preview.pixels.buffer);
+    post({ id, type: 'result', hdri, environment, preview, stats, quality }, transfer);
+  } catch (error: any) {
+    post({ id, type: 'error', message: error?.message || String(error) });
+  } finally {
+    controllers.delete(id);
+  }
+});
@@ -0,0 +1,116 @@
+import { Injectable } from '@angular/core';
+import * as THREE from 'three';
+import { EXRExporter, ZIPS_COMPRESSION } from 'three/addons/exporters/EXRExporter.js';
+import { DecodedHdri } from './hdri-codec';
+
+export type ExrPrecision = 'half' | 'float';
+
+// Scanlines shorter/longer than this cannot use the "new" Radiance run-length encoding
+const RLE_MIN_WIDTH = 8;
+const RLE_MAX_WIDTH = 0x7fff;
+const MIN_RUN_LENGTH = 4;
+
+@Injectable({
+  providedIn: 'root'
+})
+export class HdriEncoderService {
+
+  /**
+   * Writes RGBA Float32 data (top-down) as a run-length encoded Radiance RGBE file.
+   */
+  encodeRadiance(hdri: DecodedHdri): Blob {
+    const { width, height, data } = hdri;
+    const header = `#?RADIANCE\n# Written by Simple HDRI Viewer\nFORMAT=32-bit_rle_rgbe\n\n-Y ${height} +X ${width}\n`;
+    const parts: BlobPart[] = [header];
+    const useRle = width >= RLE_MIN_WIDTH && width <= RLE_MAX_WIDTH;
+
+    const rgbe = new Uint8Array(width * 4);
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        const i = (y * width + x) * 4;
+        this.floatToRgbe(data[i], data[i + 1], data[i + 2], rgbe, x * 4);
+      }
+      parts.push(useRle ? this.encodeScanline(rgbe, width) : rgbe.slice());
+    }
+
+    return new Blob(parts, { type: 'image/vnd.radiance' });
+  }
+
+  /**
+   * Writes RGBA Float32 data (top-down) as a single-part scanline OpenEXR file.
+   * ZIPS (one scanline per block) is used because 16-line ZIP blocks from EXRExporter don't decode correctly.
+   */
+  encodeExr(hdri: DecodedHdri, precision: ExrPrecision): Blob {
+    const { width, height, data } = hdri;
+    // EXRExporter expects texture row order (bottom-up)
+    const flipped = new Float32Array(data.length);
+    const rowLength = width * 4;
+    for (let y = 0; y < height; y++) {
+      flipped.set(data.subarray(y * rowLength, (y + 1) * rowLength), (height - 1 - y) * rowLength);
+    }
+
+    const texture = new THREE.DataTexture(flipped, width, height, THREE.RGBAFormat, THREE.FloatType);
+    const bytes = new EXRExporter().parse(texture, {
+      type: precision === 'half' ? THREE.HalfFloatType : THREE.FloatType,
+      compression: ZIPS_COMPRESSION,
+    });
+    texture.dispose();
+    return new Blob([bytes], { type: 'image/x-exr' });
+  }
+
+  private floatToRgbe(r: number, g: number, b: number, out: Uint8Array, offset: number): void {
+    r = Math.max(0, r); g = Math.max(0, g); b = Math.max(0, b);
+    const v = Math.max(r, g, b);
+    if (!(v >= 1e-32) || !isFinite(v)) {
+      out[offset] = out[offset + 1] = out[offset + 2] = out[offset + 3] = 0;
+      return;
+    }
+    // frexp: v = m * 2^e with m in [0.5, 1)
+    let e = Math.floor(Math.log2(v)) + 1;
+    if (v * Math.pow(2, -e) >= 1) e++;
+    const scale = Math.pow(2, -e) * 256;
+    out[offset] = Math.floor(r * scale);
+    out[offset + 1] = Math.floor(g * scale);
+    out[offset + 2] = Math.floor(b * scale);
+    out[offset + 3] = e + 128;
+  }
+
+  /** Adaptive run-length encoding of one scanline, one component plane at a time (Greg Ward's scheme). */
+  private encodeScanline(rgbe: Uint8Array, width: number): Uint8Array {
+    const out: number[] = [2, 2, width >> 8, width & 0xff];
+
+    for (let c = 0; c < 4; c++) {
+      const value = (x: number) => rgbe[x * 4 + c];
+      let cur = 0;
+      while (cur < width) {
+        let begRun = cur;
+        let runCount = 0;
+        let oldRunCount = 0;
+        // Find the next run of at least MIN_RUN_LENGTH identical bytes
+        while (runCount < MIN_RUN_LENGTH && begRun < width) {
+          begRun += runCount;
+          oldRunCount = runCount;
+          runCount = 1;
+          while (begRun + runCount < width && runCount < 127 && value(begRun) === value(begRun + runCount)) runCount++;
+        }
+        // A short run right before the long one is cheaper as a run than as literals
+        if (oldRunCount > 1 && oldRunCount === begRun - cur) {
+          out.push(128 + oldRunCount, value(cur));
+          cur = begRun;
+        }
+        while (cur < begRun) {
+          const count = Math.min(128, begRun - cur);
+          out.push(count);
+          for (let i = 0; i < count; i++) out.push(value(cur + i));
+          cur += count;
+        }
+        if (runCount >= MIN_RUN_LENGTH) {
+          out.push(128 + runCount, value(begRun));
+          cur += runCount;
+        }
+      }
+    }
+
+    return new Uint8Array(out);
+  }
+}
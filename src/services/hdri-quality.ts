@@ -0,0 +1,263 @@
+/**
+ * DOM-free quality checks for equirect HDRIs: flat-topped (clipped) highlights, a discontinuous
+ * left/right seam and pinched poles. Runs in the decoder worker alongside the statistics.
+ */
+import { DecodedHdri } from './hdri-codec';
+import { luminance } from './hdri-analysis';
+
+export type QualityStatus = 'pass' | 'warn' | 'fail';
+
+/** Area of the equirect to highlight, in UV (v = 0 at the top). */
+export interface QualityRegion {
+  u: number;
+  v: number;
+  width: number;
+  height: number;
+}
+
+export interface QualityCheck {
+  id: 'clipping' | 'seam' | 'poles';
+  label: string;
+  status: QualityStatus;
+  detail: string;
+  regions: QualityRegion[];
+}
+
+export interface HdriQualityReport {
+  /** Worst status of all checks. */
+  status: QualityStatus;
+  checks: QualityCheck[];
+}
+
+// Pixels within this fraction of a channel's maximum sit on its plateau (finer than half-float steps)
+const CLIP_TOLERANCE = 1 / 4096;
+// A smooth peak has few pixels that close to its maximum compared to the shoulder just below it;
+// a clipped one is a flat disk with a thin edge
+const SHOULDER_TOLERANCE = 1 / 256;
+const MIN_PLATEAU_SHARE = 0.25;
+const MIN_PLATEAU_PIXELS = 9;
+// A plateau this many stops above the mean is a clipped light source rather than a clipped highlight
+const LIGHT_SOURCE_STOPS = 5;
+// Clipped pixels are grouped on a coarse grid to find the regions to highlight
+const GRID_WIDTH = 128;
+const GRID_HEIGHT = 64;
+const MAX_REGIONS = 8;
+
+// Seam: the wrap-around step is compared with the steps between this many interior column pairs
+const SEAM_SAMPLE_COLUMNS = 32;
+// A row is discontinuous when its seam step exceeds this multiple of the interior steps plus a floor (stops)
+const SEAM_ROW_FACTOR = 4;
+const SEAM_ROW_FLOOR = 0.1;
+// Share of discontinuous rows for warn / fail
+const SEAM_WARN_ROWS = 0.01;
+const SEAM_FAIL_ROWS = 0.05;
+// Width of the highlighted band on each side of the seam
+const SEAM_BAND = 0.015;
+
+// The first/last row is (almost) a single point of the sphere, so it should be (almost) constant.
+// Relative spread (std / mean) of that row for warn / fail
+const POLE_WARN_SPREAD = 0.1;
+const POLE_FAIL_SPREAD = 0.3;
+// Height of the highlighted band at a pinched pole
+const POLE_BAND = 0.04;
+
+const STATUS_RANK: Record<QualityStatus, number> = { pass: 0, warn: 1, fail: 2 };
+
+export function checkHdriQuality(hdri: DecodedHdri, meanLuminance: number): HdriQualityReport {
+  const checks = [checkClipping(hdri, meanLuminance), checkSeam(hdri, meanLuminance), checkPoles(hdri, meanLuminance)];
+  const status = checks.reduce<QualityStatus>((worst, check) => STATUS_RANK[check.status] > STATUS_RANK[worst] ? check.status : worst, 'pass');
+  return { status, checks };
+}
+
+function checkClipping(hdri: DecodedHdri, meanLuminance: number): QualityCheck {
+  const { width, height, data } = hdri;
+  const max = [0, 0, 0];
+  for (let i = 0; i < data.length; i += 4) {
+    for (let c = 0; c < 3; c++) {
+      const value = data[i + c];
+      if (value > max[c] && isFinite(value)) max[c] = value;
+    }
+  }
+
+  // Plateau and shoulder size of each channel, plus where the plateau pixels are
+  const limits = max.map(m => m * (1 - CLIP_TOLERANCE));
+  const shoulders = max.map(m => m * (1 - SHOULDER_TOLERANCE));
+  const counts = [0, 0, 0];
+  const shoulderCounts = [0, 0, 0];
+  const grids = [0, 1, 2].map(() => new Uint32Array(GRID_WIDTH * GRID_HEIGHT));
+  for (let y = 0; y < height; y++) {
+    const row = Math.floor(y * GRID_HEIGHT / height) * GRID_WIDTH;
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * 4;
+      for (let c = 0; c < 3; c++) {
+        if (max[c] <= 0 || data[i + c] < shoulders[c]) continue;
+        shoulderCounts[c]++;
+        if (data[i + c] >= limits[c]) {
+          counts[c]++;
+          grids[c][row + Math.floor(x * GRID_WIDTH / width)]++;
+        }
+      }
+    }
+  }
+
+  const clipped = [0, 1, 2].filter(c => counts[c] >= MIN_PLATEAU_PIXELS && counts[c] >= MIN_PLATEAU_SHARE * shoulderCounts[c]);
+  if (clipped.length === 0) {
+    return { id: 'clipping', label: 'Clipping', status: 'pass', detail: 'No flat-topped highlights.', regions: [] };
+  }
+
+  const grid = new Uint32Array(GRID_WIDTH * GRID_HEIGHT);
+  clipped.forEach(c => grids[c].forEach((count, cell) => grid[cell] += count));
+  const channel = clipped.reduce((a, b) => max[b] > max[a] ? b : a);
+  const plateau = max[channel];
+  const stops = meanLuminance > 0 ? Math.log2(plateau / meanLuminance) : Infinity;
+  const isLightSource = stops >= LIGHT_SOURCE_STOPS;
+  const names = clipped.map(c => 'RGB'[c]).join('');
+  return {
+    id: 'clipping',
+    label: 'Clipping',
+    status: isLightSource ? 'fail' : 'warn',
+    detail: `${isLightSource ? 'Light source' : 'Highlights'} clipped: ${Math.max(...clipped.map(c => counts[c]))} px flat at ${plateau.toPrecision(4)} (${names})`
+      + (isFinite(stops) ? `, ${stops.toFixed(1)} stops above the mean.` : '.'),
+    regions: gridRegions(grid),
+  };
+}
+
+/** Bounding boxes of the 8-connected occupied cells (wrapping around horizontally), largest first. */
+function gridRegions(grid: Uint32Array): QualityRegion[] {
+  const visited = new Uint8Array(grid.length);
+  const regions: (QualityRegion & { pixels: number })[] = [];
+  for (let start = 0; start < grid.length; start++) {
+    if (visited[start] || grid[start] === 0) continue;
+    visited[start] = 1;
+    const stack = [start];
+    const columns = new Set<number>();
+    let top = GRID_HEIGHT, bottom = 0, pixels = 0;
+    while (stack.length > 0) {
+      const cell = stack.pop()!;
+      const x = cell % GRID_WIDTH, y = (cell - x) / GRID_WIDTH;
+      columns.add(x);
+      top = Math.min(top, y);
+      bottom = Math.max(bottom, y);
+      pixels += grid[cell];
+      for (let dy = -1; dy <= 1; dy++) {
+        const ny = y + dy;
+        if (ny < 0 || ny >= GRID_HEIGHT) continue;
+        for (let dx = -1; dx <= 1; dx++) {
+          const n = ny * GRID_WIDTH + (x + dx + GRID_WIDTH) % GRID_WIDTH;
+          if (visited[n] || grid[n] === 0) continue;
+          visited[n] = 1;
+          stack.push(n);
+        }
+      }
+    }
+
+    // A region crossing the seam starts after its largest gap in columns
+    const sorted = [...columns].sort((a, b) => a - b);
+    let left = sorted[0], right = sorted[sorted.length - 1], widestGap = GRID_WIDTH - 1 - right + left;
+    for (let i = 1; i < sorted.length; i++) {
+      const gap = sorted[i] - sorted[i - 1] - 1;
+      if (gap > widestGap) { widestGap = gap; left = sorted[i]; right = sorted[i - 1]; }
+    }
+    const span = (right - left + GRID_WIDTH) % GRID_WIDTH + 1;
+    // One cell of margin so small regions stay visible
+    regions.push({
+      u: ((left - 1 + GRID_WIDTH) % GRID_WIDTH) / GRID_WIDTH,
+      v: Math.max(0, top - 1) / GRID_HEIGHT,
+      width: Math.min(GRID_WIDTH, span + 2) / GRID_WIDTH,
+      height: (Math.min(GRID_HEIGHT, bottom + 2) - Math.max(0, top - 1)) / GRID_HEIGHT,
+      pixels,
+    });
+  }
+  return regions
+    .sort((a, b) => b.pixels - a.pixels)
+    .slice(0, MAX_REGIONS)
+    .flatMap(({ pixels, ...region }) => splitAtSeam(region));
+}
+
+/** Boxes running past the right edge continue on the left. */
+function splitAtSeam(region: QualityRegion): QualityRegion[] {
+  const overflow = region.u + region.width - 1;
+  if (overflow <= 0) return [region];
+  return [{ ...region, width: 1 - region.u }, { ...region, u: 0, width: Math.min(1, overflow) }];
+}
+
+function checkSeam(hdri: DecodedHdri, meanLuminance: number): QualityCheck {
+  const { width, height, data } = hdri;
+  const epsilon = Math.max(meanLuminance * 1e-3, 1e-6);
+  const lum = (x: number, y: number) => {
+    const i = (y * width + x) * 4;
+    return luminance(data[i], data[i + 1], data[i + 2]);
+  };
+  const step = (a: number, b: number) => Math.abs(Math.log2((a + epsilon) / (b + epsilon)));
+
+  let seamSum = 0, interiorSum = 0;
+  const badRows = new Uint8Array(height);
+  let badCount = 0;
+  for (let y = 0; y < height; y++) {
+    let interior = 0;
+    for (let k = 0; k < SEAM_SAMPLE_COLUMNS; k++) {
+      const x = Math.floor((k + 0.5) * (width - 1) / SEAM_SAMPLE_COLUMNS);
+      interior += step(lum(x, y), lum(x + 1, y));
+    }
+    interior /= SEAM_SAMPLE_COLUMNS;
+    const seam = step(lum(width - 1, y), lum(0, y));
+    seamSum += seam;
+    interiorSum += interior;
+    if (seam > SEAM_ROW_FACTOR * interior + SEAM_ROW_FLOOR) {
+      badRows[y] = 1;
+      badCount++;
+    }
+  }
+
+  const share = badCount / height;
+  const status: QualityStatus = share >= SEAM_FAIL_ROWS ? 'fail' : share >= SEAM_WARN_ROWS ? 'warn' : 'pass';
+  const ratio = interiorSum > 0 ? seamSum / interiorSum : 0;
+  const detail = status === 'pass'
+    ? `Continuous (step across the seam ${ratio.toFixed(1)}x the typical column step).`
+    : `Discontinuous in ${(share * 100).toFixed(1)}% of rows (step across the seam ${ratio.toFixed(1)}x the typical column step).`;
+
+  // Runs of bad rows, bridging gaps of a few rows, highlighted on both sides of the seam
+  const regions: QualityRegion[] = [];
+  if (status !== 'pass') {
+    const gap = Math.max(2, Math.round(height * 0.01));
+    let start = -1, last = -1;
+    for (let y = 0; y <= height; y++) {
+      if (y < height && badRows[y]) {
+        if (start < 0) start = y;
+        last = y;
+      } else if (start >= 0 && (y === height || y - last > gap)) {
+        const v = start / height, spanHeight = Math.max(1, last - start + 1) / height;
+        regions.push({ u: 0, v, width: SEAM_BAND, height: spanHeight }, { u: 1 - SEAM_BAND, v, width: SEAM_BAND, height: spanHeight });
+        start = -1;
+      }
+    }
+  }
+  return { id: 'seam', label: 'Seam', status, detail, regions: regions.slice(0, MAX_REGIONS * 2) };
+}
+
+function checkPoles(hdri: DecodedHdri, meanLuminance: number): QualityCheck {
+  const { width, height, data } = hdri;
+  const epsilon = Math.max(meanLuminance * 1e-3, 1e-6);
+  const spread = (y: number) => {
+    let sum = 0, sumSquares = 0;
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * 4;
+      const value = luminance(data[i], data[i + 1], data[i + 2]);
+      sum += value;
+      sumSquares += value * value;
+    }
+    const mean = sum / width;
+    return Math.sqrt(Math.max(0, sumSquares / width - mean * mean)) / (mean + epsilon);
+  };
+
+  const poles = [{ name: 'Zenith', spread: spread(0), v: 0 }, { name: 'Nadir', spread: spread(height - 1), v: 1 - POLE_BAND }];
+  const statusOf = (s: number): QualityStatus => s >= POLE_FAIL_SPREAD ? 'fail' : s >= POLE_WARN_SPREAD ? 'warn' : 'pass';
+  const status = poles.reduce<QualityStatus>((worst, pole) => STATUS_RANK[statusOf(pole.spread)] > STATUS_RANK[worst] ? statusOf(pole.spread) : worst, 'pass');
+  return {
+    id: 'poles',
+    label: 'Poles',
+    status,
+    detail: poles.map(pole => `${pole.name} ${statusOf(pole.spread) === 'pass' ? 'converges' : 'pinched'} (row spread ${(pole.spread * 100).toFixed(1)}%)`).join(', ') + '.',
+    regions: poles.filter(pole => statusOf(pole.spread) !== 'pass').map(pole => ({ u: 0, v: pole.v, width: 1, height: POLE_BAND })),
+  };
+}
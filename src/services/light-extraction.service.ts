@@ -0,0 +1,194 @@
+import { Injectable } from '@angular/core';
+import * as THREE from 'three';
+import { DecodedHdri, downsampleHdri } from './hdri-codec';
+import { luminance } from './hdri-analysis';
+import { directionToEquirectUv, equirectUvToDirection } from './equirect-mapping';
+
+export interface LightDetectionOptions {
+  /** Keep at most this many regions, the most energetic first. */
+  maxLights: number;
+  /** Pixels brighter than the solid-angle weighted mean luminance by this many stops are part of a light. */
+  thresholdEv: number;
+}
+
+/** A bright region collapsed into one directional light. */
+export interface ExtractedLight {
+  /** Energy-weighted centroid on the equirect. */
+  u: number;
+  v: number;
+  /** Linear RGB, normalized so the brightest channel is 1. */
+  color: [number, number, number];
+  /**
+   * Irradiance of the region (radiance integrated over its solid angle), in `DirectionalLight` intensity units:
+   * a surface facing the light receives as much from it as from the region in the environment.
+   */
+  intensity: number;
+  /** Solid angle covered by the region, in steradians. */
+  solidAngle: number;
+}
+
+/** Downsampled copy of an HDRI with per-pixel luminance and per-row solid angles. */
+interface AnalysisBuffer {
+  width: number;
+  height: number;
+  data: Float32Array;
+  luminance: Float32Array;
+  solidAngles: Float64Array;
+  /** Solid-angle weighted mean luminance. */
+  meanLuminance: number;
+}
+
+// Segmentation runs on a downsampled copy; lights smaller than a pixel still keep their energy
+const ANALYSIS_WIDTH = 512;
+
+// A picked light snaps to the brightest pixel this close to the click (analysis pixels, ~3°)
+const PICK_SEARCH_RADIUS = 4;
+// A picked light covers the connected pixels within this many stops of its peak...
+const PICK_REGION_STOPS = 3;
+// ...and no more than this far from it, so picking a plain patch of sky doesn't flood half the image
+const PICK_MAX_ANGLE = THREE.MathUtils.degToRad(10);
+
+@Injectable({
+  providedIn: 'root'
+})
+export class LightExtractionService {
+  private cached: { source: Float32Array; buffer: AnalysisBuffer } | null = null;
+
+  /**
+   * Thresholds the equirect, groups bright pixels into connected regions (wrapping around
+   * horizontally) and returns the most energetic ones.
+   */
+  detectLights(hdri: DecodedHdri, options: LightDetectionOptions): ExtractedLight[] {
+    const buffer = this.getBuffer(hdri);
+    const threshold = buffer.meanLuminance * Math.pow(2, options.thresholdEv);
+    if (!(threshold > 0)) return [];
+
+    const visited = new Uint8Array(buffer.width * buffer.height);
+    const lights: (ExtractedLight & { energy: number })[] = [];
+    for (let start = 0; start < visited.length; start++) {
+      if (visited[start] || buffer.luminance[start] < threshold) continue;
+      lights.push(this.integrateRegion(buffer, start, visited, p => buffer.luminance[p] >= threshold));
+    }
+
+    return lights
+      .sort((a, b) => b.energy - a.energy)
+      .slice(0, Math.max(0, options.maxLights))
+      .map(({ energy, ...light }) => light);
+  }
+
+  /**
+   * Measures the light source under a picked point: snaps to the nearby peak and integrates the
+   * connected region around it, the same way `detectLights` does.
+   */
+  measureLightAt(hdri: DecodedHdri, u: number, v: number): ExtractedLight {
+    const buffer = this.getBuffer(hdri);
+    const { width, height, luminance: lum } = buffer;
+    const cx = Math.floor(u * width), cy = Math.min(height - 1, Math.floor(v * height));
+
+    let peak = cy * width + ((cx % width) + width) % width;
+    for (let y = Math.max(0, cy - PICK_SEARCH_RADIUS); y <= Math.min(height - 1, cy + PICK_SEARCH_RADIUS); y++) {
+      for (let x = cx - PICK_SEARCH_RADIUS; x <= cx + PICK_SEARCH_RADIUS; x++) {
+        const p = y * width + ((x % width) + width) % width;
+        if (lum[p] > lum[peak]) peak = p;
+      }
+    }
+
+    const peakDirection = this.pixelDirection(buffer, peak, new THREE.Vector3());
+    const minCos = Math.cos(PICK_MAX_ANGLE);
+    const threshold = lum[peak] / Math.pow(2, PICK_REGION_STOPS);
+    const direction = new THREE.Vector3();
+    const { energy, ...light } = this.integrateRegion(buffer, peak, new Uint8Array(width * height),
+      p => lum[p] >= threshold && this.pixelDirection(buffer, p, direction).dot(peakDirection) >= minCos);
+    return light;
+  }
+
+  /**
+   * Linear RGB irradiance the environment delivers to a surface facing `normal` (HDRI frame),
+   * i.e. the color a perfectly neutral diffuse surface with that orientation takes on.
+   */
+  irradianceAt(hdri: DecodedHdri, normal: THREE.Vector3): [number, number, number] {
+    const buffer = this.getBuffer(hdri);
+    const { width, height, data, solidAngles } = buffer;
+    const n = normal.clone().normalize();
+    const direction = new THREE.Vector3();
+    const irradiance: [number, number, number] = [0, 0, 0];
+    for (let p = 0; p < width * height; p++) {
+      const cosine = this.pixelDirection(buffer, p, direction).dot(n);
+      if (cosine <= 0) continue;
+      const weight = cosine * solidAngles[Math.floor(p / width)];
+      irradiance[0] += data[p * 4] * weight;
+      irradiance[1] += data[p * 4 + 1] * weight;
+      irradiance[2] += data[p * 4 + 2] * weight;
+    }
+    return irradiance;
+  }
+
+  /** Flood fills (8-connected, wrapping at the seam) from `start` and integrates radiance over the region. */
+  private integrateRegion(buffer: AnalysisBuffer, start: number, visited: Uint8Array, accept: (p: number) => boolean): ExtractedLight & { energy: number } {
+    const { width, height, data, luminance: lum, solidAngles } = buffer;
+    const stack = [start];
+    const direction = new THREE.Vector3();
+    const pixelDirection = new THREE.Vector3();
+    let r = 0, g = 0, b = 0, energy = 0, solidAngle = 0;
+    visited[start] = 1;
+
+    while (stack.length > 0) {
+      const p = stack.pop()!;
+      const x = p % width, y = (p - x) / width;
+      const omega = solidAngles[y];
+      r += data[p * 4] * omega;
+      g += data[p * 4 + 1] * omega;
+      b += data[p * 4 + 2] * omega;
+      energy += lum[p] * omega;
+      solidAngle += omega;
+      direction.addScaledVector(this.pixelDirection(buffer, p, pixelDirection), lum[p] * omega);
+
+      for (let dy = -1; dy <= 1; dy++) {
+        const ny = y + dy;
+        if (ny < 0 || ny >= height) continue;
+        for (let dx = -1; dx <= 1; dx++) {
+          const n = ny * width + (x + dx + width) % width;
+          if (visited[n] || !accept(n)) continue;
+          visited[n] = 1;
+          stack.push(n);
+        }
+      }
+    }
+
+    // A region spanning a whole pole ring (or a black one) has no centroid; fall back to its seed pixel
+    if (direction.lengthSq() < 1e-12) this.pixelDirection(buffer, start, direction);
+    const { u, v } = directionToEquirectUv(direction);
+    const max = Math.max(r, g, b);
+    const color: [number, number, number] = max > 0 ? [r / max, g / max, b / max] : [1, 1, 1];
+    return { u, v, color, intensity: Math.max(0, max), solidAngle, energy };
+  }
+
+  private pixelDirection(buffer: AnalysisBuffer, p: number, target: THREE.Vector3): THREE.Vector3 {
+    const x = p % buffer.width, y = (p - x) / buffer.width;
+    return equirectUvToDirection((x + 0.5) / buffer.width, (y + 0.5) / buffer.height, target);
+  }
+
+  /** The analysis buffer of the last HDRI is kept, picking runs again on every click. */
+  private getBuffer(hdri: DecodedHdri): AnalysisBuffer {
+    if (this.cached?.source === hdri.data) return this.cached.buffer;
+
+    const { width, height, data } = hdri.width > ANALYSIS_WIDTH ? downsampleHdri(hdri, ANALYSIS_WIDTH) : hdri;
+    const lum = new Float32Array(width * height);
+    const solidAngles = new Float64Array(height);
+    let weightedSum = 0;
+    for (let y = 0; y < height; y++) {
+      const top = (0.5 - y / height) * Math.PI;
+      const bottom = (0.5 - (y + 1) / height) * Math.PI;
+      solidAngles[y] = 2 * Math.PI / width * (Math.sin(top) - Math.sin(bottom));
+      for (let x = 0; x < width; x++) {
+        const p = y * width + x;
+        lum[p] = luminance(data[p * 4], data[p * 4 + 1], data[p * 4 + 2]);
+        weightedSum += lum[p] * solidAngles[y];
+      }
+    }
+
+    const buffer = { width, height, data, luminance: lum, solidAngles, meanLuminance: weightedSum / (4 * Math.PI) };
+    this.cached = { source: hdri.data, buffer };
+    return buffer;
+  }
+}
@@ -0,0 +1,117 @@
+import { Injectable } from '@angular/core';
+import * as THREE from 'three';
+import { GLTFLoader } from 'three/addons/loaders/GLTFLoader.js';
+import { OBJLoader } from 'three/addons/loaders/OBJLoader.js';
+
+@Injectable({
+  providedIn: 'root'
+})
+export class ModelImportService {
+  isSupportedFile(name: string): boolean {
+    return /\.(glb|gltf|obj)$/i.test(name);
+  }
+
+  getMimeType(name: string): string {
+    if (/\.glb$/i.test(name)) return 'model/gltf-binary';
+    if (/\.gltf$/i.test(name)) return 'model/gltf+json';
+    return 'model/obj';
+  }
+
+  /**
+   * Loads a .glb, a self-contained .gltf (buffers and images embedded as data URIs) or an .obj,
+   * casting and receiving shadows, scaled so its largest side is `size` and centered on the
+   * origin standing on y = 0. OBJ materials become MeshStandardMaterial so they react to the HDRI.
+   */
+  async load(file: File, size: number): Promise<THREE.Group> {
+    const content = /\.obj$/i.test(file.name) ? await this.parseObj(file) : await this.parseGltf(file);
+
+    content.traverse((child: THREE.Object3D) => {
+      if (!(child as THREE.Mesh).isMesh) return;
+      child.castShadow = true;
+      child.receiveShadow = true;
+    });
+
+    const box = new THREE.Box3().setFromObject(content);
+    if (box.isEmpty()) throw new Error('The model contains no geometry.');
+    const extent = box.getSize(new THREE.Vector3());
+    const center = box.getCenter(new THREE.Vector3());
+    content.position.set(-center.x, -box.min.y, -center.z);
+
+    const root = new THREE.Group();
+    root.name = file.name;
+    root.add(content);
+    root.scale.setScalar(size / Math.max(extent.x, extent.y, extent.z, 1e-6));
+    return root;
+  }
+
+  /** Editable PBR materials of a loaded model, each listed once even when shared between meshes. */
+  getMaterials(object: THREE.Object3D): THREE.MeshStandardMaterial[] {
+    const materials = new Set<THREE.MeshStandardMaterial>();
+    object.traverse((child: THREE.Object3D) => {
+      if (!(child as THREE.Mesh).isMesh) return;
+      for (const material of meshMaterials(child as THREE.Mesh)) {
+        if ((material as THREE.MeshStandardMaterial).isMeshStandardMaterial) materials.add(material as THREE.MeshStandardMaterial);
+      }
+    });
+    return [...materials];
+  }
+
+  /** Frees the GPU resources of a model that has been removed from the scene. */
+  dispose(object: THREE.Object3D): void {
+    object.traverse((child: THREE.Object3D) => {
+      if (!(child as THREE.Mesh).isMesh) return;
+      const mesh = child as THREE.Mesh;
+      mesh.geometry.dispose();
+      for (const material of meshMaterials(mesh)) {
+        for (const value of Object.values(material)) {
+          if ((value as THREE.Texture | null)?.isTexture) (value as THREE.Texture).dispose();
+        }
+        material.dispose();
+      }
+    });
+  }
+
+  private async parseGltf(file: File): Promise<THREE.Group> {
+    const data = /\.glb$/i.test(file.name) ? await file.arrayBuffer() : await file.text();
+    try {
+      const gltf = await new GLTFLoader().parseAsync(data, '');
+      return gltf.scene;
+    } catch (error) {
+      // Without a base path, external .bin/texture files and compressed extensions can't resolve
+      throw new Error(`Could not parse ${file.name}. Use a .glb or a .gltf with embedded resources; Draco, Meshopt and KTX2 compression are not supported. (${error instanceof Error ? error.message : error})`);
+    }
+  }
+
+  private async parseObj(file: File): Promise<THREE.Group> {
+    const group = new OBJLoader().parse(await file.text());
+    const converted = new Map<THREE.Material, THREE.MeshStandardMaterial>();
+    const toStandard = (material: THREE.Material): THREE.MeshStandardMaterial => {
+      let standard = converted.get(material);
+      if (!standard) {
+        // OBJLoader gives meshes Phong materials
+        const phong = material as THREE.MeshPhongMaterial;
+        standard = new THREE.MeshStandardMaterial({
+          name: phong.name,
+          color: phong.color ?? 0xffffff,
+          roughness: 0.5,
+          metalness: 0,
+          flatShading: phong.flatShading,
+          vertexColors: phong.vertexColors,
+        });
+        converted.set(material, standard);
+        material.dispose();
+      }
+      return standard;
+    };
+    group.traverse((child: THREE.Object3D) => {
+      if (!(child as THREE.Mesh).isMesh) return;
+      const mesh = child as THREE.Mesh;
+      mesh.material = Array.isArray(mesh.material) ? mesh.material.map(toStandard) : toStandard(mesh.material);
+    });
+    return group;
+  }
+}
+
+function meshMaterials(mesh: THREE.Mesh): THREE.Material[] {
+  return Array.isArray(mesh.material) ? mesh.material : [mesh.material];
+}
@@ -0,0 +1,281 @@
+import { Injectable } from '@angular/core';
+import * as THREE from 'three';
+import { DecodedHdri, downsampleHdri } from './hdri-codec';
+import { HdriOrientation, equirectUvToDirection, worldToHdri } from './equirect-mapping';
+
+export type PrefilteredLayout = 'equirect' | 'cube';
+
+export interface PrefilterOptions {
+  layout: PrefilteredLayout;
+  /** Cube face size of the sharpest specular level; an equirect level is 4x as wide and 2x as high. */
+  size: number;
+  orientation: HdriOrientation;
+  /** Linear scale baked into every level, like the HDRI export. */
+  exposure: number;
+}
+
+/** One image set of the prefiltered environment: a single equirect, or six faces in FACE_NAMES order. */
+export interface PrefilteredLevel {
+  /** GGX roughness this level was filtered for; null for the diffuse irradiance map. */
+  roughness: number | null;
+  width: number;
+  height: number;
+  images: DecodedHdri[];
+}
+
+/** Viewer settings written to the manifest next to the file list. */
+export interface PrefilteredExportInfo {
+  name: string;
+  /** File extension of the images, without the dot. */
+  extension: string;
+  layout: PrefilteredLayout;
+  orientation: HdriOrientation;
+  exposure: number;
+  whiteBalance: { temperature: number; tint: number };
+}
+
+// Face order and suffixes used by the cube layout: +X, -X, +Y, -Y, +Z, -Z
+export const FACE_NAMES = ['px', 'nx', 'py', 'ny', 'pz', 'nz'];
+
+// Diffuse irradiance has no detail to speak of; the source is reduced before the (quadratic) convolution
+const IRRADIANCE_FACE_SIZE = 32;
+const IRRADIANCE_SOURCE_WIDTH = 128;
+
+// The blurriest specular level is 8 px per face, below that three's PMREM stops adding levels too
+const MIN_SPECULAR_FACE_SIZE = 8;
+
+@Injectable({
+  providedIn: 'root'
+})
+export class PrefilteredEnvironmentService {
+
+  /**
+   * Reads the specular mip chain back from a PMREM render target. Each level is sampled with three's
+   * `textureCubeUV` at its roughness, i.e. exactly what a MeshStandardMaterial of that roughness reflects.
+   * Roughness runs linearly from 0 (mirror) at level 0 to 1 at the last level, halving the resolution per level.
+   */
+  renderSpecularLevels(renderer: THREE.WebGLRenderer, pmrem: THREE.WebGLRenderTarget, options: PrefilterOptions): PrefilteredLevel[] {
+    const levelCount = Math.max(1, Math.floor(Math.log2(options.size / MIN_SPECULAR_FACE_SIZE)) + 1);
+    // Same derivation as three's generateCubeUVSize, which only runs for materials with an envMap
+    const maxMip = Math.log2(pmrem.height) - 2;
+    const material = new THREE.ShaderMaterial({
+      name: 'PrefilteredEnvironmentReadback',
+      defines: {
+        ENVMAP_TYPE_CUBE_UV: '',
+        CUBEUV_TEXEL_WIDTH: 1 / (3 * Math.max(Math.pow(2, maxMip), 7 * 16)),
+        CUBEUV_TEXEL_HEIGHT: 1 / pmrem.height,
+        CUBEUV_MAX_MIP: maxMip.toFixed(1),
+      },
+      uniforms: {
+        envMap: { value: pmrem.texture },
+        roughness: { value: 0 },
+        exposure: { value: options.exposure },
+        face: { value: -1 },
+        toHdri: { value: this.worldToHdriMatrix(options.orientation) },
+      },
+      vertexShader: /* glsl */`
+        varying vec2 vUv;
+        void main() {
+          vUv = uv;
+          gl_Position = vec4( position.xy, 0.0, 1.0 );
+        }
+      `,
+      fragmentShader: /* glsl */`
+        uniform sampler2D envMap;
+        uniform float roughness;
+        uniform float exposure;
+        uniform int face;
+        uniform mat3 toHdri;
+        varying vec2 vUv;
+        #include <common>
+        #include <cube_uv_reflection_fragment>
+
+        // Same mappings as outputDirection() on the CPU side; rows are flipped to top-down after readback
+        vec3 outputDirection() {
+          float u = vUv.x, v = 1.0 - vUv.y;
+          if ( face < 0 ) {
+            float azimuth = ( u - 0.5 ) * 2.0 * PI;
+            float latitude = ( 0.5 - v ) * PI;
+            return vec3( cos( latitude ) * cos( azimuth ), sin( latitude ), cos( latitude ) * sin( azimuth ) );
+          }
+          float s = 2.0 * u - 1.0, t = 2.0 * v - 1.0;
+          if ( face == 0 ) return vec3( 1.0, -t, -s );
+          if ( face == 1 ) return vec3( -1.0, -t, s );
+          if ( face == 2 ) return vec3( s, 1.0, t );
+          if ( face == 3 ) return vec3( s, -1.0, -t );
+          if ( face == 4 ) return vec3( s, -t, 1.0 );
+          return vec3( -s, -t, -1.0 );
+        }
+
+        void main() {
+          vec3 direction = toHdri * normalize( outputDirection() );
+          gl_FragColor = vec4( textureCubeUV( envMap, direction, roughness ).rgb * exposure, 1.0 );
+        }
+      `,
+      depthTest: false,
+      depthWrite: false,
+    });
+    const quad = new THREE.Mesh(new THREE.PlaneGeometry(2, 2), material);
+    const camera = new THREE.OrthographicCamera(-1, 1, 1, -1, 0, 1);
+    const previousTarget = renderer.getRenderTarget();
+
+    try {
+      const levels: PrefilteredLevel[] = [];
+      for (let level = 0; level < levelCount; level++) {
+        const faceSize = options.size >> level;
+        const roughness = levelCount > 1 ? level / (levelCount - 1) : 0;
+        const { width, height } = this.levelSize(options.layout, faceSize);
+        const target = new THREE.WebGLRenderTarget(width, height, {
+          type: THREE.FloatType,
+          minFilter: THREE.NearestFilter,
+          magFilter: THREE.NearestFilter,
+          depthBuffer: false,
+        });
+        material.uniforms['roughness'].value = roughness;
+
+        const images = (options.layout === 'cube' ? [0, 1, 2, 3, 4, 5] : [-1]).map(face => {
+          material.uniforms['face'].value = face;
+          renderer.setRenderTarget(target);
+          renderer.render(quad, camera);
+          const pixels = new Float32Array(width * height * 4);
+          renderer.readRenderTargetPixels(target, 0, 0, width, height, pixels);
+          return { width, height, data: this.flipRows(pixels, width, height), source: 'hdr' as const };
+        });
+        target.dispose();
+        levels.push({ roughness, width, height, images });
+      }
+      return levels;
+    } finally {
+      renderer.setRenderTarget(previousTarget);
+      quad.geometry.dispose();
+      material.dispose();
+    }
+  }
+
+  /**
+   * Diffuse irradiance map by brute-force cosine convolution on the CPU. Texels hold E / pi, the outgoing
+   * radiance of a white Lambertian surface, so shading is `albedo * texel`.
+   */
+  computeIrradiance(hdri: DecodedHdri, options: PrefilterOptions): PrefilteredLevel {
+    const source = hdri.width > IRRADIANCE_SOURCE_WIDTH ? downsampleHdri(hdri, IRRADIANCE_SOURCE_WIDTH) : hdri;
+    const count = source.width * source.height;
+    // Radiance * solid angle / pi (with exposure) and direction of every source pixel, in the HDRI frame
+    const weighted = new Float32Array(count * 3);
+    const directions = new Float32Array(count * 3);
+    const direction = new THREE.Vector3();
+    for (let y = 0; y < source.height; y++) {
+      const top = (0.5 - y / source.height) * Math.PI;
+      const bottom = (0.5 - (y + 1) / source.height) * Math.PI;
+      const scale = 2 * Math.PI / source.width * (Math.sin(top) - Math.sin(bottom)) * options.exposure / Math.PI;
+      for (let x = 0; x < source.width; x++) {
+        const p = y * source.width + x;
+        equirectUvToDirection((x + 0.5) / source.width, (y + 0.5) / source.height, direction);
+        directions[p * 3] = direction.x;
+        directions[p * 3 + 1] = direction.y;
+        directions[p * 3 + 2] = direction.z;
+        weighted[p * 3] = source.data[p * 4] * scale;
+        weighted[p * 3 + 1] = source.data[p * 4 + 1] * scale;
+        weighted[p * 3 + 2] = source.data[p * 4 + 2] * scale;
+      }
+    }
+
+    const { width, height } = this.levelSize(options.layout, IRRADIANCE_FACE_SIZE);
+    const normal = new THREE.Vector3();
+    const images = (options.layout === 'cube' ? [0, 1, 2, 3, 4, 5] : [-1]).map(face => {
+      const data = new Float32Array(width * height * 4);
+      for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+          worldToHdri(this.outputDirection(face, (x + 0.5) / width, (y + 0.5) / height, normal), options.orientation);
+          let r = 0, g = 0, b = 0;
+          for (let p = 0; p < count; p++) {
+            const cosine = normal.x * directions[p * 3] + normal.y * directions[p * 3 + 1] + normal.z * directions[p * 3 + 2];
+            if (cosine <= 0) continue;
+            r += weighted[p * 3] * cosine;
+            g += weighted[p * 3 + 1] * cosine;
+            b += weighted[p * 3 + 2] * cosine;
+          }
+          const i = (y * width + x) * 4;
+          data[i] = r;
+          data[i + 1] = g;
+          data[i + 2] = b;
+          data[i + 3] = 1;
+        }
+      }
+      return { width, height, data, source: 'hdr' as const };
+    });
+    return { roughness: null, width, height, images };
+  }
+
+  /**
+   * Names every image (`irradiance.hdr`, `specular_2_px.hdr`...) and describes the set in a JSON manifest,
+   * including the roughness each specular level was filtered for.
+   */
+  createManifest(irradiance: PrefilteredLevel, specular: PrefilteredLevel[], info: PrefilteredExportInfo): { manifest: string; files: { name: string; image: DecodedHdri }[] } {
+    const files: { name: string; image: DecodedHdri }[] = [];
+    const describe = (level: PrefilteredLevel, prefix: string) => {
+      const names = level.images.map((image, i) => {
+        const name = `${prefix}${level.images.length > 1 ? '_' + FACE_NAMES[i] : ''}.${info.extension}`;
+        files.push({ name, image });
+        return name;
+      });
+      return { width: level.width, height: level.height, files: names };
+    };
+
+    const manifest = {
+      name: info.name,
+      layout: info.layout,
+      coordinates: info.layout === 'cube'
+        ? 'Right-handed world space, +Y up. Faces ' + FACE_NAMES.join(', ') + ' follow the OpenGL cube map convention'
+        : 'Right-handed world space, +Y up. Equirect u = 0.5 faces +X, u = 0.75 faces +Z, v = 0 is straight up',
+      orientation: info.orientation,
+      exposure: info.exposure,
+      whiteBalance: info.whiteBalance,
+      irradiance: {
+        content: 'Cosine-convolved irradiance divided by pi (linear sRGB): diffuse radiance = albedo * texel',
+        ...describe(irradiance, 'irradiance'),
+      },
+      specular: {
+        content: 'GGX prefiltered radiance (linear sRGB) from three.js PMREM; roughness is MeshStandardMaterial.roughness',
+        levels: specular.map((level, i) => ({ level: i, roughness: level.roughness, ...describe(level, `specular_${i}`) })),
+      },
+    };
+    return { manifest: JSON.stringify(manifest, null, 2), files };
+  }
+
+  /** World direction of an output texel: the viewer's equirect mapping (face -1) or an OpenGL cube face. */
+  private outputDirection(face: number, u: number, v: number, target: THREE.Vector3): THREE.Vector3 {
+    if (face < 0) return equirectUvToDirection(u, v, target);
+    const s = 2 * u - 1, t = 2 * v - 1;
+    switch (face) {
+      case 0: return target.set(1, -t, -s).normalize();
+      case 1: return target.set(-1, -t, s).normalize();
+      case 2: return target.set(s, 1, t).normalize();
+      case 3: return target.set(s, -1, -t).normalize();
+      case 4: return target.set(s, -t, 1).normalize();
+      default: return target.set(-s, -t, -1).normalize();
+    }
+  }
+
+  private levelSize(layout: PrefilteredLayout, faceSize: number): { width: number; height: number } {
+    return layout === 'cube' ? { width: faceSize, height: faceSize } : { width: faceSize * 4, height: faceSize * 2 };
+  }
+
+  /** Columns are the HDRI-frame images of the world axes, so `toHdri * world` equals `worldToHdri(world)`. */
+  private worldToHdriMatrix(orientation: HdriOrientation): THREE.Matrix3 {
+    const basis = new THREE.Matrix4().makeBasis(
+      worldToHdri(new THREE.Vector3(1, 0, 0), orientation),
+      worldToHdri(new THREE.Vector3(0, 1, 0), orientation),
+      worldToHdri(new THREE.Vector3(0, 0, 1), orientation),
+    );
+    return new THREE.Matrix3().setFromMatrix4(basis);
+  }
+
+  private flipRows(pixels: Float32Array, width: number, height: number): Float32Array {
+    const flipped = new Float32Array(pixels.length);
+    const stride = width * 4;
+    for (let y = 0; y < height; y++) {
+      flipped.set(pixels.subarray((height - 1 - y) * stride, (height - y) * stride), y * stride);
+    }
+    return flipped;
+  }
+}
@@ -0,0 +1,148 @@
+import { Injectable } from '@angular/core';
+import * as THREE from 'three';
+import { DecodedHdri, downsampleHdri } from './hdri-codec';
+import { ColorMatrix, applyColorMatrix } from './color-temperature';
+import { HdriOrientation, equirectUvToDirection, hdriToWorld } from './equirect-mapping';
+
+/** Context written next to the coefficients, so an exported file can be traced back to the viewer settings. */
+export interface ShExportInfo {
+  name: string;
+  orientation: HdriOrientation;
+  whiteBalance: { temperature: number; tint: number };
+}
+
+// L2 is very smooth, a small equirect projects to the same coefficients as the full-resolution one
+const PROJECTION_WIDTH = 256;
+
+export const SH_COEFFICIENT_NAMES = ['L00', 'L1-1', 'L10', 'L11', 'L2-2', 'L2-1', 'L20', 'L21', 'L22'];
+
+@Injectable({
+  providedIn: 'root'
+})
+export class SphericalHarmonicsService {
+  private cached: { source: Float32Array; hdri: DecodedHdri } | null = null;
+
+  /**
+   * Projects the radiance of an equirect onto L2 (SH9) in world space, i.e. after the scene orientation,
+   * with an optional linear color transform (white balance). The basis and scaling are three's
+   * `SphericalHarmonics3`, so `getIrradianceAt(normal)` gives the irradiance a surface with that normal receives.
+   */
+  project(hdri: DecodedHdri, orientation: HdriOrientation, colorMatrix?: ColorMatrix): THREE.SphericalHarmonics3 {
+    const { width, height, data } = this.getProjectionBuffer(hdri);
+    const sh = new THREE.SphericalHarmonics3();
+    const basis = new Array(9).fill(0);
+    const direction = new THREE.Vector3();
+    const color = new THREE.Vector3();
+
+    for (let y = 0; y < height; y++) {
+      const top = (0.5 - y / height) * Math.PI;
+      const bottom = (0.5 - (y + 1) / height) * Math.PI;
+      const solidAngle = 2 * Math.PI / width * (Math.sin(top) - Math.sin(bottom));
+      for (let x = 0; x < width; x++) {
+        const i = (y * width + x) * 4;
+        hdriToWorld(equirectUvToDirection((x + 0.5) / width, (y + 0.5) / height, direction), orientation);
+        THREE.SphericalHarmonics3.getBasisAt(direction, basis);
+        color.set(data[i], data[i + 1], data[i + 2]);
+        for (let k = 0; k < 9; k++) sh.coefficients[k].addScaledVector(color, basis[k] * solidAngle);
+      }
+    }
+
+    if (colorMatrix) {
+      sh.coefficients.forEach((c: THREE.Vector3) => c.set(...applyColorMatrix(colorMatrix, c.x, c.y, c.z)));
+    }
+    return sh;
+  }
+
+  /**
+   * Sphere material lit only by the SH: Lambert with the given albedo, no specular and no shadows,
+   * for comparing the SH against the PMREM lighting of the regular objects.
+   */
+  createPreviewMaterial(sh: THREE.SphericalHarmonics3, albedo: THREE.Color): THREE.ShaderMaterial {
+    const material = new THREE.ShaderMaterial({
+      name: 'ShIrradiancePreview',
+      uniforms: {
+        sh: { value: sh.coefficients.map((c: THREE.Vector3) => c.clone()) },
+        albedo: { value: albedo.clone() },
+      },
+      vertexShader: /* glsl */`
+        varying vec3 vWorldNormal;
+        #include <common>
+        void main() {
+          vWorldNormal = normalize( mat3( modelMatrix ) * normal );
+          gl_Position = projectionMatrix * modelViewMatrix * vec4( position, 1.0 );
+        }
+      `,
+      fragmentShader: /* glsl */`
+        uniform vec3 sh[ 9 ];
+        uniform vec3 albedo;
+        varying vec3 vWorldNormal;
+        #include <common>
+        void main() {
+          // Same as three's shGetIrradianceAt
+          vec3 n = normalize( vWorldNormal );
+          float x = n.x, y = n.y, z = n.z;
+          vec3 irradiance = sh[ 0 ] * 0.886227;
+          irradiance += sh[ 1 ] * 2.0 * 0.511664 * y;
+          irradiance += sh[ 2 ] * 2.0 * 0.511664 * z;
+          irradiance += sh[ 3 ] * 2.0 * 0.511664 * x;
+          irradiance += sh[ 4 ] * 2.0 * 0.429043 * x * y;
+          irradiance += sh[ 5 ] * 2.0 * 0.429043 * y * z;
+          irradiance += sh[ 6 ] * ( 0.743125 * z * z - 0.247708 );
+          irradiance += sh[ 7 ] * 2.0 * 0.429043 * x * z;
+          irradiance += sh[ 8 ] * 0.429043 * ( x * x - y * y );
+          gl_FragColor = vec4( albedo * max( irradiance, vec3( 0.0 ) ) * RECIPROCAL_PI, 1.0 );
+          #include <tonemapping_fragment>
+          #include <colorspace_fragment>
+        }
+      `,
+    });
+    return material;
+  }
+
+  updatePreviewMaterial(material: THREE.ShaderMaterial, sh: THREE.SphericalHarmonics3, albedo: THREE.Color): void {
+    material.uniforms['sh'].value.forEach((c: THREE.Vector3, i: number) => c.copy(sh.coefficients[i]));
+    material.uniforms['albedo'].value.copy(albedo);
+  }
+
+  toJson(sh: THREE.SphericalHarmonics3, info: ShExportInfo): string {
+    return JSON.stringify({
+      name: info.name,
+      order: 2,
+      basis: 'Real orthonormal SH, three.js SphericalHarmonics3 order: ' + SH_COEFFICIENT_NAMES.join(', '),
+      coordinates: 'Right-handed world space, +Y up, after rotation/pitch/roll',
+      content: 'Radiance coefficients (linear sRGB). Irradiance E(n) = sum A_l * c_lm * Y_lm(n) with A_0 = pi, A_1 = 2pi/3, A_2 = pi/4',
+      orientation: info.orientation,
+      whiteBalance: info.whiteBalance,
+      coefficients: sh.coefficients.map((c: THREE.Vector3) => [c.x, c.y, c.z]),
+    }, null, 2);
+  }
+
+  toCArray(sh: THREE.SphericalHarmonics3, info: ShExportInfo): string {
+    const identifier = 'sh9_' + (info.name.replace(/\.[^.]+$/, '').replace(/[^A-Za-z0-9_]/g, '_') || 'environment');
+    const { rotation, pitch, roll } = info.orientation;
+    const rows = sh.coefficients.map((c: THREE.Vector3, i: number) =>
+      `    { ${[c.x, c.y, c.z].map(v => this.formatFloat(v)).join(', ')} }${i < 8 ? ',' : ' '} // ${SH_COEFFICIENT_NAMES[i]}`);
+    return [
+      `// L2 spherical harmonics (radiance, linear sRGB RGB) of ${info.name}`,
+      `// three.js SphericalHarmonics3 basis, world space +Y up; rotation ${rotation} turns, pitch ${pitch} deg, roll ${roll} deg`,
+      `// White balance ${info.whiteBalance.temperature} K, tint ${info.whiteBalance.tint}`,
+      `static const float ${identifier}[9][3] = {`,
+      ...rows,
+      '};',
+      '',
+    ].join('\n');
+  }
+
+  private formatFloat(value: number): string {
+    const text = value.toPrecision(9);
+    return (text.includes('.') || text.includes('e') ? text : text + '.0') + 'f';
+  }
+
+  private getProjectionBuffer(hdri: DecodedHdri): DecodedHdri {
+    if (hdri.width <= PROJECTION_WIDTH) return hdri;
+    if (this.cached?.source !== hdri.data) {
+      this.cached = { source: hdri.data, hdri: downsampleHdri(hdri, PROJECTION_WIDTH) };
+    }
+    return this.cached.hdri;
+  }
+}
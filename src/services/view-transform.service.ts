@@ -0,0 +1,427 @@
+import { Injectable } from '@angular/core';
+import * as THREE from 'three';
+import { CubeLut } from './cube-lut';
+import { luminance } from './hdri-analysis';
+
+export type ViewTransform = 'ACES Filmic' | 'AgX' | 'Khronos PBR Neutral' | 'Reinhard' | 'Cineon' | 'None';
+export type ViewLook = 'None' | 'Punchy' | 'Golden' | 'Very High Contrast' | 'High Contrast' | 'Medium High Contrast'
+  | 'Medium Low Contrast' | 'Low Contrast' | 'Very Low Contrast';
+export type ViewChannel = 'RGB' | 'Luminance' | 'Red' | 'Green' | 'Blue' | 'Alpha';
+
+export interface ViewSettings {
+  transform: ViewTransform;
+  /** Only AgX and Khronos PBR Neutral have looks, the other transforms ignore it. */
+  look: ViewLook;
+  exposure: number;
+  /** Display LUT applied to the sRGB-encoded result of the transform, mixed in by `lutIntensity`. */
+  lut: CubeLut | null;
+  lutIntensity: number;
+  /** Shows the image or one of its channels as gray; luminance is taken from the scene before the transform. */
+  channel: ViewChannel;
+  /** Stripes over pixels the transform maps outside the sRGB gamut (shown as they are on Display P3 output). */
+  gamutWarning: boolean;
+}
+
+export const VIEW_TRANSFORMS: ViewTransform[] = ['ACES Filmic', 'AgX', 'Khronos PBR Neutral', 'Reinhard', 'Cineon', 'None'];
+export const LOOK_TRANSFORMS: ViewTransform[] = ['AgX', 'Khronos PBR Neutral'];
+export const VIEW_CHANNELS: ViewChannel[] = ['RGB', 'Luminance', 'Red', 'Green', 'Blue', 'Alpha'];
+
+/**
+ * A look is a contrast change around middle gray before the curve (as Blender's AgX contrast looks)
+ * followed by an ASC CDL slope/power/saturation on the display-encoded result (Filament's Golden & Punchy).
+ */
+interface LookParameters {
+  contrast: number;
+  slope: [number, number, number];
+  power: number;
+  saturation: number;
+}
+
+const LOOKS: Record<ViewLook, LookParameters> = {
+  'None': { contrast: 1, slope: [1, 1, 1], power: 1, saturation: 1 },
+  'Punchy': { contrast: 1, slope: [1, 1, 1], power: 1.35, saturation: 1.4 },
+  'Golden': { contrast: 1, slope: [1, 0.9, 0.5], power: 0.8, saturation: 0.8 },
+  'Very High Contrast': { contrast: 1.4, slope: [1, 1, 1], power: 1, saturation: 1 },
+  'High Contrast': { contrast: 1.25, slope: [1, 1, 1], power: 1, saturation: 1 },
+  'Medium High Contrast': { contrast: 1.12, slope: [1, 1, 1], power: 1, saturation: 1 },
+  'Medium Low Contrast': { contrast: 0.9, slope: [1, 1, 1], power: 1, saturation: 1 },
+  'Low Contrast': { contrast: 0.8, slope: [1, 1, 1], power: 1, saturation: 1 },
+  'Very Low Contrast': { contrast: 0.7, slope: [1, 1, 1], power: 1, saturation: 1 },
+};
+
+export const VIEW_LOOKS = Object.keys(LOOKS) as ViewLook[];
+
+// Spot meter: field of view in degrees and the side of the square it is rendered into
+const SPOT_METER_FOV = 2;
+const SPOT_METER_SIZE = 8;
+
+@Injectable({
+  providedIn: 'root'
+})
+export class ViewTransformService {
+  private target: THREE.WebGLRenderTarget | null = null;
+  private material: THREE.ShaderMaterial | null = null;
+  private quad: THREE.Mesh | null = null;
+  private readonly quadCamera = new THREE.OrthographicCamera(-1, 1, 1, -1, 0, 1);
+  private readonly viewport = new THREE.Vector4();
+  private readonly size = new THREE.Vector2();
+  private lutTexture: { lut: CubeLut; texture: THREE.Texture } | null = null;
+  private spotTarget: THREE.WebGLRenderTarget | null = null;
+  private readonly spotCamera = new THREE.PerspectiveCamera(SPOT_METER_FOV, 1, 0.1, 1000);
+
+  /**
+   * Renders the scene linear into an HDR target, then applies exposure, the view transform and the
+   * encoding for the renderer's `outputColorSpace` (sRGB or Display P3) into its current canvas
+   * viewport & scissor. The scene has to be set up without tone mapping (`NoToneMapping`), the
+   * transform is done here only.
+   * Pixels with a negative alpha are display-referred sRGB already (e.g. false color) and are only re-encoded for P3.
+   */
+  render(renderer: THREE.WebGLRenderer, scene: THREE.Scene, camera: THREE.Camera, settings: ViewSettings): void {
+    const target = this.getTarget(renderer);
+    const pixelRatio = renderer.getPixelRatio();
+    target.viewport.copy(renderer.getViewport(this.viewport)).multiplyScalar(pixelRatio).floor();
+    target.scissor.copy(renderer.getScissor(this.viewport)).multiplyScalar(pixelRatio).floor();
+    target.scissorTest = renderer.getScissorTest();
+
+    renderer.setRenderTarget(target);
+    renderer.render(scene, camera);
+    renderer.setRenderTarget(null);
+
+    const quad = this.getQuad();
+    const uniforms = this.material!.uniforms;
+    const look = LOOK_TRANSFORMS.includes(settings.transform) ? LOOKS[settings.look] : LOOKS['None'];
+    uniforms['map'].value = target.texture;
+    uniforms['resolution'].value.set(target.width, target.height);
+    uniforms['exposure'].value = settings.exposure;
+    uniforms['transform'].value = VIEW_TRANSFORMS.indexOf(settings.transform);
+    uniforms['lookContrast'].value = look.contrast;
+    uniforms['lookSlope'].value.set(...look.slope);
+    uniforms['lookPower'].value = look.power;
+    uniforms['lookSaturation'].value = look.saturation;
+    uniforms['channel'].value = VIEW_CHANNELS.indexOf(settings.channel);
+    uniforms['displayP3'].value = renderer.outputColorSpace === THREE.DisplayP3ColorSpace;
+    uniforms['gamutWarning'].value = settings.gamutWarning;
+
+    const lut = settings.lutIntensity > 0 ? settings.lut : null;
+    const lutTexture = lut ? this.getLutTexture(lut) : null;
+    uniforms['lutKind'].value = lut ? (lut.kind === '3d' ? 2 : 1) : 0;
+    uniforms['lut3d'].value = lut?.kind === '3d' ? lutTexture : null;
+    uniforms['lut1d'].value = lut?.kind === '1d' ? lutTexture : null;
+    if (lut) {
+      uniforms['lutSize'].value = lut.size;
+      uniforms['lutDomainMin'].value.set(...lut.domainMin);
+      uniforms['lutDomainMax'].value.set(...lut.domainMax);
+      uniforms['lutIntensity'].value = settings.lutIntensity;
+    }
+    renderer.render(quad, this.quadCamera);
+  }
+
+  /**
+   * Mean luminance of the linear scene (before exposure) in a narrow cone along a ray, as a camera's
+   * spot meter. Null when the cone only sees display-referred pixels (false color).
+   */
+  meterSpot(renderer: THREE.WebGLRenderer, scene: THREE.Scene, ray: THREE.Ray, near: number, far: number): number | null {
+    // Float so the values can be read back as they are
+    this.spotTarget ??= new THREE.WebGLRenderTarget(SPOT_METER_SIZE, SPOT_METER_SIZE, { type: THREE.FloatType });
+    this.spotCamera.near = near;
+    this.spotCamera.far = far;
+    this.spotCamera.updateProjectionMatrix();
+    this.spotCamera.position.copy(ray.origin);
+    this.spotCamera.lookAt(ray.origin.clone().add(ray.direction));
+    this.spotCamera.updateMatrixWorld();
+
+    const previousTarget = renderer.getRenderTarget();
+    renderer.setRenderTarget(this.spotTarget);
+    renderer.render(scene, this.spotCamera);
+    renderer.setRenderTarget(previousTarget);
+
+    const pixels = new Float32Array(SPOT_METER_SIZE * SPOT_METER_SIZE * 4);
+    renderer.readRenderTargetPixels(this.spotTarget, 0, 0, SPOT_METER_SIZE, SPOT_METER_SIZE, pixels);
+    let sum = 0;
+    let count = 0;
+    for (let i = 0; i < pixels.length; i += 4) {
+      if (pixels[i + 3] < 0) continue;
+      sum += luminance(pixels[i], pixels[i + 1], pixels[i + 2]);
+      count++;
+    }
+    return count > 0 ? sum / count : null;
+  }
+
+  dispose(): void {
+    this.spotTarget?.dispose();
+    this.spotTarget = null;
+    this.lutTexture?.texture.dispose();
+    this.lutTexture = null;
+    this.target?.dispose();
+    this.material?.dispose();
+    this.quad?.geometry.dispose();
+    this.target = null;
+    this.material = null;
+    this.quad = null;
+  }
+
+  private getTarget(renderer: THREE.WebGLRenderer): THREE.WebGLRenderTarget {
+    const { x: width, y: height } = renderer.getDrawingBufferSize(this.size);
+    if (!this.target) {
+      this.target = new THREE.WebGLRenderTarget(width, height, { type: THREE.HalfFloatType, samples: 4 });
+    } else if (this.target.width !== width || this.target.height !== height) {
+      this.target.setSize(width, height);
+    }
+    return this.target;
+  }
+
+  /** Half float RGBA texture of the LUT (linear filtering of float textures needs an extension), cached for the last LUT. */
+  private getLutTexture(lut: CubeLut): THREE.Texture {
+    if (this.lutTexture?.lut === lut) return this.lutTexture.texture;
+    this.lutTexture?.texture.dispose();
+
+    const entries = lut.data.length / 3;
+    const data = new Uint16Array(entries * 4);
+    for (let i = 0; i < entries; i++) {
+      data[i * 4] = THREE.DataUtils.toHalfFloat(lut.data[i * 3]);
+      data[i * 4 + 1] = THREE.DataUtils.toHalfFloat(lut.data[i * 3 + 1]);
+      data[i * 4 + 2] = THREE.DataUtils.toHalfFloat(lut.data[i * 3 + 2]);
+      data[i * 4 + 3] = THREE.DataUtils.toHalfFloat(1);
+    }
+    // 3D: red is the fastest axis in .cube files, as x is in Data3DTexture
+    const texture = lut.kind === '3d'
+      ? new THREE.Data3DTexture(data, lut.size, lut.size, lut.size)
+      : new THREE.DataTexture(data, lut.size, 1);
+    texture.format = THREE.RGBAFormat;
+    texture.type = THREE.HalfFloatType;
+    texture.minFilter = THREE.LinearFilter;
+    texture.magFilter = THREE.LinearFilter;
+    texture.wrapS = texture.wrapT = THREE.ClampToEdgeWrapping;
+    if (lut.kind === '3d') (texture as THREE.Data3DTexture).wrapR = THREE.ClampToEdgeWrapping;
+    texture.generateMipmaps = false;
+    texture.unpackAlignment = 1;
+    texture.needsUpdate = true;
+    this.lutTexture = { lut, texture };
+    return texture;
+  }
+
+  private getQuad(): THREE.Mesh {
+    if (this.quad) return this.quad;
+    this.material = new THREE.ShaderMaterial({
+      name: 'ViewTransform',
+      uniforms: {
+        map: { value: null },
+        resolution: { value: new THREE.Vector2() },
+        exposure: { value: 1 },
+        transform: { value: 0 },
+        lookContrast: { value: 1 },
+        lookSlope: { value: new THREE.Vector3(1, 1, 1) },
+        lookPower: { value: 1 },
+        lookSaturation: { value: 1 },
+        lutKind: { value: 0 },
+        lut1d: { value: null },
+        lut3d: { value: null },
+        lutSize: { value: 2 },
+        lutDomainMin: { value: new THREE.Vector3(0, 0, 0) },
+        lutDomainMax: { value: new THREE.Vector3(1, 1, 1) },
+        lutIntensity: { value: 1 },
+        channel: { value: 0 },
+        displayP3: { value: false },
+        gamutWarning: { value: false },
+      },
+      vertexShader: /* glsl */`
+        void main() {
+          gl_Position = vec4( position.xy, 0.0, 1.0 );
+        }
+      `,
+      // Curves follow three's tonemapping_pars_fragment, which has no AgX looks and is global to all materials
+      fragmentShader: /* glsl */`
+        uniform sampler2D map;
+        uniform vec2 resolution;
+        uniform float exposure;
+        uniform int transform;
+        uniform float lookContrast;
+        uniform vec3 lookSlope;
+        uniform float lookPower;
+        uniform float lookSaturation;
+        uniform int lutKind; // 0 none, 1 1D, 2 3D
+        uniform sampler2D lut1d;
+        uniform sampler3D lut3d;
+        uniform float lutSize;
+        uniform vec3 lutDomainMin;
+        uniform vec3 lutDomainMax;
+        uniform float lutIntensity;
+        uniform int channel; // Index in VIEW_CHANNELS
+        uniform bool displayP3;
+        uniform bool gamutWarning;
+
+        const vec3 LUMA = vec3( 0.2126, 0.7152, 0.0722 );
+        const mat3 LINEAR_SRGB_TO_LINEAR_REC2020 = mat3(
+          vec3( 0.6274, 0.0691, 0.0164 ),
+          vec3( 0.3293, 0.9195, 0.0880 ),
+          vec3( 0.0433, 0.0113, 0.8956 )
+        );
+        const mat3 LINEAR_REC2020_TO_LINEAR_SRGB = mat3(
+          vec3( 1.6605, - 0.1246, - 0.0182 ),
+          vec3( - 0.5876, 1.1329, - 0.1006 ),
+          vec3( - 0.0728, - 0.0083, 1.1187 )
+        );
+        const mat3 LINEAR_SRGB_TO_LINEAR_DISPLAY_P3 = mat3(
+          vec3( 0.8224621, 0.0331941, 0.0170827 ),
+          vec3( 0.1775380, 0.9668058, 0.0723974 ),
+          vec3( 0.0, 0.0, 0.9105199 )
+        );
+
+        vec3 applyCdl( vec3 encoded ) {
+          float luma = dot( encoded, LUMA );
+          encoded = pow( max( encoded * lookSlope, vec3( 0.0 ) ), vec3( lookPower ) );
+          return luma + lookSaturation * ( encoded - luma );
+        }
+
+        vec3 RRTAndODTFit( vec3 v ) {
+          vec3 a = v * ( v + 0.0245786 ) - 0.000090537;
+          vec3 b = v * ( 0.983729 * v + 0.4329510 ) + 0.238081;
+          return a / b;
+        }
+
+        vec3 acesFilmic( vec3 color ) {
+          const mat3 ACESInputMat = mat3(
+            vec3( 0.59719, 0.07600, 0.02840 ),
+            vec3( 0.35458, 0.90834, 0.13383 ),
+            vec3( 0.04823, 0.01566, 0.83777 )
+          );
+          const mat3 ACESOutputMat = mat3(
+            vec3( 1.60475, - 0.10208, - 0.00327 ),
+            vec3( - 0.53108, 1.10813, - 0.07276 ),
+            vec3( - 0.07367, - 0.00605, 1.07602 )
+          );
+          color /= 0.6;
+          return ACESOutputMat * RRTAndODTFit( ACESInputMat * color );
+        }
+
+        vec3 agxContrastApprox( vec3 x ) {
+          vec3 x2 = x * x;
+          vec3 x4 = x2 * x2;
+          return 15.5 * x4 * x2 - 40.14 * x4 * x + 31.96 * x4 - 6.868 * x2 * x + 0.4298 * x2 + 0.1191 * x - 0.00232;
+        }
+
+        vec3 agx( vec3 color ) {
+          const mat3 AgXInsetMatrix = mat3(
+            vec3( 0.856627153315983, 0.137318972929847, 0.11189821299995 ),
+            vec3( 0.0951212405381588, 0.761241990602591, 0.0767994186031903 ),
+            vec3( 0.0482516061458583, 0.101439036467562, 0.811302368396859 )
+          );
+          const mat3 AgXOutsetMatrix = mat3(
+            vec3( 1.1271005818144368, - 0.1413297634984383, - 0.14132976349843826 ),
+            vec3( - 0.11060664309660323, 1.157823702216272, - 0.11060664309660294 ),
+            vec3( - 0.016493938717834573, - 0.016493938717834257, 1.2519364065950405 )
+          );
+          const float AgxMinEv = - 12.47393;
+          const float AgxMaxEv = 4.026069;
+          const float AgxMiddleGray = ( - 2.473931 - AgxMinEv ) / ( AgxMaxEv - AgxMinEv );
+
+          color = AgXInsetMatrix * ( LINEAR_SRGB_TO_LINEAR_REC2020 * color );
+          color = ( log2( max( color, 1e-10 ) ) - AgxMinEv ) / ( AgxMaxEv - AgxMinEv );
+          color = ( color - AgxMiddleGray ) * lookContrast + AgxMiddleGray;
+          color = agxContrastApprox( clamp( color, 0.0, 1.0 ) );
+          color = applyCdl( color );
+          color = AgXOutsetMatrix * color;
+          color = pow( max( vec3( 0.0 ), color ), vec3( 2.2 ) );
+          return LINEAR_REC2020_TO_LINEAR_SRGB * color;
+        }
+
+        vec3 pbrNeutral( vec3 color ) {
+          const float StartCompression = 0.8 - 0.04;
+          const float Desaturation = 0.15;
+          color = 0.18 * pow( max( color, vec3( 0.0 ) ) / 0.18, vec3( lookContrast ) );
+
+          float x = min( color.r, min( color.g, color.b ) );
+          float offset = x < 0.08 ? x - 6.25 * x * x : 0.04;
+          color -= offset;
+
+          float peak = max( color.r, max( color.g, color.b ) );
+          if ( peak >= StartCompression ) {
+            float d = 1.0 - StartCompression;
+            float newPeak = 1.0 - d * d / ( peak + d - StartCompression );
+            color *= newPeak / peak;
+            float g = 1.0 - 1.0 / ( Desaturation * ( peak - newPeak ) + 1.0 );
+            color = mix( color, vec3( newPeak ), g );
+          }
+          // Looks grade the display-encoded values, as for AgX
+          vec3 encoded = applyCdl( pow( max( color, vec3( 0.0 ) ), vec3( 1.0 / 2.2 ) ) );
+          return pow( max( encoded, vec3( 0.0 ) ), vec3( 2.2 ) );
+        }
+
+        // Linear sRGB display values, not yet clamped: any transform can leave the sRGB gamut (wide-gamut
+        // HDRIs, P3 color checker patches), so the classic curves run per channel and keep the sign of negatives
+        vec3 viewTransform( vec3 color ) {
+          if ( transform == 0 ) return acesFilmic( color );
+          if ( transform == 1 ) return agx( color );
+          if ( transform == 2 ) return pbrNeutral( color );
+          if ( transform == 3 ) return color / ( vec3( 1.0 ) + abs( color ) );
+          if ( transform == 4 ) {
+            vec3 x = max( vec3( 0.0 ), abs( color ) - 0.004 );
+            return sign( color ) * pow( ( x * ( 6.2 * x + 0.5 ) ) / ( x * ( 6.2 * x + 1.7 ) + 0.06 ), vec3( 2.2 ) );
+          }
+          return color;
+        }
+
+        vec3 linearToSrgb( vec3 color ) {
+          return mix( color * 12.92, 1.055 * pow( color, vec3( 0.41666 ) ) - 0.055, step( vec3( 0.0031308 ), color ) );
+        }
+
+        vec3 srgbToLinear( vec3 color ) {
+          return mix( color / 12.92, pow( ( color + 0.055 ) / 1.055, vec3( 2.4 ) ), step( vec3( 0.04045 ), color ) );
+        }
+
+        // Display P3 shares the sRGB transfer function, only the primaries differ
+        vec3 encodeOutput( vec3 color ) {
+          if ( displayP3 ) color = LINEAR_SRGB_TO_LINEAR_DISPLAY_P3 * color;
+          return linearToSrgb( clamp( color, 0.0, 1.0 ) );
+        }
+
+        vec3 applyLut( vec3 color ) {
+          // Texel centers: the first and last entries sit half a texel inside the texture
+          vec3 coord = clamp( ( color - lutDomainMin ) / ( lutDomainMax - lutDomainMin ), 0.0, 1.0 );
+          coord = coord * ( ( lutSize - 1.0 ) / lutSize ) + 0.5 / lutSize;
+          if ( lutKind == 2 ) return texture( lut3d, coord ).rgb;
+          return vec3(
+            texture2D( lut1d, vec2( coord.r, 0.5 ) ).r,
+            texture2D( lut1d, vec2( coord.g, 0.5 ) ).g,
+            texture2D( lut1d, vec2( coord.b, 0.5 ) ).b
+          );
+        }
+
+        void main() {
+          vec4 texel = texture2D( map, gl_FragCoord.xy / resolution );
+          vec3 scene = texel.rgb * exposure;
+          if ( channel == 1 ) scene = vec3( dot( LUMA, scene ) );
+          vec3 display = viewTransform( scene );
+          bool outOfGamut = min( display.r, min( display.g, display.b ) ) < - 0.001;
+          if ( lutKind > 0 ) {
+            // LUTs are made for sRGB display input, so they get (and give back) clamped sRGB
+            vec3 encoded = linearToSrgb( clamp( display, 0.0, 1.0 ) );
+            display = srgbToLinear( mix( encoded, applyLut( encoded ), lutIntensity ) );
+          }
+          // Luminance again only to drop tints of looks & LUTs (a no-op on gray)
+          if ( channel == 1 ) display = vec3( dot( LUMA, display ) );
+          vec3 color = encodeOutput( display );
+          // Single channels as gray
+          if ( channel == 2 ) color = color.rrr;
+          else if ( channel == 3 ) color = color.ggg;
+          else if ( channel == 4 ) color = color.bbb;
+          else if ( channel == 5 ) color = vec3( abs( texel.a ) );
+          if ( gamutWarning && outOfGamut && channel == 0 ) {
+            float stripe = step( 4.0, mod( gl_FragCoord.x + gl_FragCoord.y, 8.0 ) );
+            color = mix( color, vec3( 1.0, 0.0, 1.0 ), 0.75 * stripe );
+          }
+          // Negative alpha marks display-referred (sRGB) pixels, partially at antialiased edges
+          vec3 displayReferred = displayP3 ? encodeOutput( srgbToLinear( texel.rgb ) ) : texel.rgb;
+          color = mix( color, displayReferred, clamp( - texel.a, 0.0, 1.0 ) );
+          gl_FragColor = vec4( color, channel == 5 ? 1.0 : abs( texel.a ) );
+        }
+      `,
+      depthTest: false,
+      depthWrite: false,
+      toneMapped: false,
+    });
+    this.quad = new THREE.Mesh(new THREE.PlaneGeometry(2, 2), this.material);
+    this.quad.frustumCulled = false;
+    return this.quad;
+  }
+}